@@ -0,0 +1,731 @@
+/**
+ * RecuRun 数据工具
+ *
+ * 基于显式栈实现的深拷贝、深比较与 JSON 序列化/解析。
+ * 每一层嵌套都是由 run 驱动的生成器递归，任意深度的数据都不会导致栈溢出，
+ * 适合处理不可信的深层嵌套数据。
+ *
+ * @packageDocumentation
+ */
+
+import { run } from './index.js';
+import type { RunOptions } from './index.js';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 数据工具的运行选项
+ *
+ * 与 run 的同名选项相同，可用于限制不可信数据的嵌套深度和处理时间。
+ */
+export type DataOptions = Pick<RunOptions, 'maxDepth' | 'maxSteps' | 'timeoutMs' | 'signal'>;
+
+/**
+ * stringify 的 replacer 函数，与 JSON.stringify 相同
+ *
+ * 沿用内置签名中的 any，为 JSON.stringify 编写的函数可以直接传入。
+ */
+export type Replacer = (this: any, key: string, value: any) => any;
+
+/**
+ * parse 的 reviver 函数，与 JSON.parse 相同
+ *
+ * 沿用内置签名中的 any，为 JSON.parse 编写的函数可以直接传入。
+ */
+export type Reviver = (this: any, key: string, value: any) => any;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 判断变量是否为对象（需要递归处理的值）
+ */
+function isObject(v: unknown): v is object {
+    return typeof v === 'object' && v !== null;
+}
+
+/**
+ * 获取对象自身的可枚举键（包括 symbol 键）
+ */
+function ownEnumerableKeys(value: object): PropertyKey[] {
+    return Reflect.ownKeys(value).filter(key => Object.prototype.propertyIsEnumerable.call(value, key));
+}
+
+// ==================== 深拷贝 ====================
+
+/**
+ * deepClone 的递归帧
+ *
+ * @param value - 要拷贝的对象
+ * @param seen - 已拷贝的对象到其副本的映射，用于处理循环引用和共享引用
+ */
+function* cloneObject(value: object, seen: Map<object, unknown>): Generator<unknown, unknown, unknown> {
+    if (seen.has(value)) {
+        return seen.get(value);
+    }
+
+    if (value instanceof Date) {
+        const copy = new Date(value.getTime());
+        seen.set(value, copy);
+        return copy;
+    }
+    if (value instanceof RegExp) {
+        const copy = new RegExp(value.source, value.flags);
+        copy.lastIndex = value.lastIndex;
+        seen.set(value, copy);
+        return copy;
+    }
+    if (value instanceof ArrayBuffer) {
+        const copy = value.slice(0);
+        seen.set(value, copy);
+        return copy;
+    }
+    if (ArrayBuffer.isView(value)) {
+        const copy = value instanceof DataView
+            ? new DataView(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength))
+            : (value as unknown as { slice(): object }).slice();
+        seen.set(value, copy);
+        return copy;
+    }
+    if (value instanceof Map) {
+        const copy = new Map<unknown, unknown>();
+        seen.set(value, copy);
+        for (const [k, v] of value) {
+            const key = isObject(k) ? yield cloneObject(k, seen) : k;
+            copy.set(key, isObject(v) ? yield cloneObject(v, seen) : v);
+        }
+        return copy;
+    }
+    if (value instanceof Set) {
+        const copy = new Set<unknown>();
+        seen.set(value, copy);
+        for (const v of value) {
+            copy.add(isObject(v) ? yield cloneObject(v, seen) : v);
+        }
+        return copy;
+    }
+    if (Array.isArray(value)) {
+        const copy: unknown[] = new Array(value.length);
+        seen.set(value, copy);
+        for (let i = 0; i < value.length; i++) {
+            // 保留数组空位
+            if (i in value) {
+                const v: unknown = value[i];
+                copy[i] = isObject(v) ? yield cloneObject(v, seen) : v;
+            }
+        }
+        return copy;
+    }
+
+    // 普通对象和类实例：保留原型，拷贝自身的可枚举属性
+    const copy = Object.create(Object.getPrototypeOf(value)) as Record<PropertyKey, unknown>;
+    seen.set(value, copy);
+    for (const key of ownEnumerableKeys(value)) {
+        const v = (value as Record<PropertyKey, unknown>)[key];
+        copy[key] = isObject(v) ? yield cloneObject(v, seen) : v;
+    }
+    return copy;
+}
+
+/**
+ * 深拷贝任意深度的数据
+ *
+ * 支持普通对象、数组、Date、RegExp、Map、Set、ArrayBuffer 和 TypedArray。
+ * 其他对象保留原型并拷贝自身的可枚举属性（包括 symbol 键）；函数按引用保留。
+ * 循环引用和共享引用在副本中保持相同的结构。
+ *
+ * @param value - 要拷贝的值
+ * @param options - 运行选项
+ * @returns 副本
+ *
+ * @example
+ * ```typescript
+ * const a: { list: number[]; self?: unknown } = { list: [1, 2] };
+ * a.self = a;
+ *
+ * const b = deepClone(a);
+ * b.self === b;         // true
+ * b.list !== a.list;    // true
+ * ```
+ */
+export function deepClone<T>(value: T, options?: DataOptions): T {
+    if (!isObject(value)) {
+        return value;
+    }
+    return run(cloneObject(value, new Map()), options) as T;
+}
+
+// ==================== 深比较 ====================
+
+/**
+ * deepEqual 的递归帧
+ *
+ * @param a - 第一个对象
+ * @param b - 第二个对象
+ * @param seen - 正在比较或已经比较过的对象对。再次遇到同一对对象时视为相等，
+ *               因此结构相同的循环引用也相等
+ */
+function* equalObjects(a: object, b: object, seen: Map<object, Set<object>>): Generator<unknown, boolean, unknown> {
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+
+    let pairs = seen.get(a);
+    if (pairs?.has(b)) {
+        return true;
+    }
+    if (!pairs) {
+        pairs = new Set();
+        seen.set(a, pairs);
+    }
+    pairs.add(b);
+
+    if (a instanceof Date) {
+        return Object.is(a.getTime(), (b as Date).getTime());
+    }
+    if (a instanceof RegExp) {
+        const other = b as RegExp;
+        return a.source === other.source && a.flags === other.flags && a.lastIndex === other.lastIndex;
+    }
+    if (a instanceof ArrayBuffer || ArrayBuffer.isView(a)) {
+        return equalBytes(a, b as ArrayBuffer | ArrayBufferView);
+    }
+    if (a instanceof Map) {
+        const other = b as Map<unknown, unknown>;
+        if (a.size !== other.size) {
+            return false;
+        }
+        // 键按 SameValueZero 比较（与 Map 自身一致），值深比较
+        for (const [key, v] of a) {
+            if (!other.has(key)) {
+                return false;
+            }
+            const w = other.get(key);
+            if (!Object.is(v, w) && !(isObject(v) && isObject(w) && (yield equalObjects(v, w, seen)))) {
+                return false;
+            }
+        }
+        return true;
+    }
+    if (a instanceof Set) {
+        // 元素按 SameValueZero 比较（与 Set 自身一致）
+        const other = b as Set<unknown>;
+        if (a.size !== other.size) {
+            return false;
+        }
+        for (const v of a) {
+            if (!other.has(v)) {
+                return false;
+            }
+        }
+        return true;
+    }
+    if (Array.isArray(a)) {
+        const other = b as unknown[];
+        if (a.length !== other.length) {
+            return false;
+        }
+        for (let i = 0; i < a.length; i++) {
+            const v: unknown = a[i];
+            const w: unknown = other[i];
+            if (!Object.is(v, w) && !(isObject(v) && isObject(w) && (yield equalObjects(v, w, seen)))) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    // 包装的原始值和 Error 的内部状态不在可枚举属性中，先单独比较，再比较属性
+    if (a instanceof Number || a instanceof String || a instanceof Boolean
+        || a instanceof BigInt || a instanceof Symbol) {
+        if (!Object.is(a.valueOf(), (b as typeof a).valueOf())) {
+            return false;
+        }
+    } else if (a instanceof Error) {
+        const other = b as Error;
+        if (a.name !== other.name || a.message !== other.message) {
+            return false;
+        }
+    }
+
+    // 普通对象和类实例：比较自身的可枚举属性（包括 symbol 键）
+    const keys = ownEnumerableKeys(a);
+    if (keys.length !== ownEnumerableKeys(b).length) {
+        return false;
+    }
+    for (const key of keys) {
+        if (!Object.prototype.propertyIsEnumerable.call(b, key)) {
+            return false;
+        }
+        const v = (a as Record<PropertyKey, unknown>)[key];
+        const w = (b as Record<PropertyKey, unknown>)[key];
+        if (!Object.is(v, w) && !(isObject(v) && isObject(w) && (yield equalObjects(v, w, seen)))) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * 逐字节比较 ArrayBuffer 或其视图
+ */
+function equalBytes(a: ArrayBuffer | ArrayBufferView, b: ArrayBuffer | ArrayBufferView): boolean {
+    const x = a instanceof ArrayBuffer ? new Uint8Array(a) : new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+    const y = b instanceof ArrayBuffer ? new Uint8Array(b) : new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
+    if (x.length !== y.length) {
+        return false;
+    }
+    for (let i = 0; i < x.length; i++) {
+        if (x[i] !== y[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * 深比较任意深度的数据
+ *
+ * 原始值按 `Object.is` 比较；对象要求原型相同，并比较自身的可枚举属性（包括 symbol 键）。
+ * Date、RegExp、ArrayBuffer 和 TypedArray 按内容比较，包装的原始值（如 `new Number(1)`）比较其 `valueOf()`，
+ * Error 还比较 name 和 message；Map 的值深比较，
+ * 而 Map 的键和 Set 的元素与 Map/Set 自身一样按 SameValueZero 比较。
+ * 结构相同的循环引用视为相等。
+ *
+ * @param a - 第一个值
+ * @param b - 第二个值
+ * @param options - 运行选项
+ * @returns 两个值是否深度相等
+ *
+ * @example
+ * ```typescript
+ * deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }); // true
+ * deepEqual([NaN], [NaN]);                               // true
+ * deepEqual({ a: 1 }, { a: '1' });                       // false
+ * ```
+ */
+export function deepEqual(a: unknown, b: unknown, options?: DataOptions): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (!isObject(a) || !isObject(b)) {
+        return false;
+    }
+    return run(equalObjects(a, b, new Map()), options);
+}
+
+// ==================== 序列化 ====================
+
+/** stringify 的共享状态 */
+interface StringifyState {
+    /** 输出片段，最后一次性拼接 */
+    readonly parts: string[];
+    /** 每一层的缩进，为空字符串时不换行 */
+    readonly gap: string;
+    readonly replacer: Replacer | undefined;
+    /** replacer 为数组时允许输出的键 */
+    readonly keys: string[] | undefined;
+    /** 当前路径上的对象，用于检测循环引用 */
+    readonly path: Set<object>;
+}
+
+/**
+ * 按 JSON.stringify 的规则得到属性实际要序列化的值
+ *
+ * 依次调用 toJSON、replacer，并把包装对象还原为原始值。
+ */
+function prepareValue(state: StringifyState, holder: object, key: string, value: unknown): unknown {
+    if ((isObject(value) || typeof value === 'bigint')
+        && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        value = (value as { toJSON(key: string): unknown }).toJSON(key);
+    }
+    if (state.replacer) {
+        value = state.replacer.call(holder, key, value);
+    }
+    if (value instanceof Number) {
+        value = Number(value);
+    } else if (value instanceof String) {
+        value = String(value);
+    } else if (value instanceof Boolean || value instanceof BigInt) {
+        value = value.valueOf();
+    }
+    return value;
+}
+
+/**
+ * 判断值在 JSON 中是否会被省略（对象中跳过，数组中输出 null）
+ */
+function isOmitted(value: unknown): boolean {
+    return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
+
+/**
+ * 输出非对象的值
+ */
+function writePrimitive(parts: string[], value: unknown): void {
+    if (value === null) {
+        parts.push('null');
+    } else if (typeof value === 'string') {
+        parts.push(JSON.stringify(value));
+    } else if (typeof value === 'number') {
+        parts.push(Number.isFinite(value) ? String(value) : 'null');
+    } else if (typeof value === 'boolean') {
+        parts.push(value ? 'true' : 'false');
+    } else if (typeof value === 'bigint') {
+        throw new TypeError('Do not know how to serialize a BigInt');
+    }
+}
+
+/**
+ * stringify 的递归帧：输出一个对象或数组
+ *
+ * @param state - 共享状态
+ * @param value - 已经过 prepareValue 处理的对象
+ * @param indent - 当前层的缩进
+ */
+function* writeObject(state: StringifyState, value: object, indent: string): Generator<unknown, void, unknown> {
+    const { parts, gap, path } = state;
+    if (path.has(value)) {
+        throw new TypeError('Converting circular structure to JSON');
+    }
+    path.add(value);
+    const inner = indent + gap;
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            parts.push('[]');
+        } else {
+            parts.push('[');
+            for (let i = 0; i < value.length; i++) {
+                if (i > 0) parts.push(',');
+                if (gap) parts.push('\n' + inner);
+                const v = prepareValue(state, value, String(i), value[i]);
+                if (isOmitted(v)) {
+                    parts.push('null');
+                } else if (isObject(v)) {
+                    yield writeObject(state, v, inner);
+                } else {
+                    writePrimitive(parts, v);
+                }
+            }
+            if (gap) parts.push('\n' + indent);
+            parts.push(']');
+        }
+    } else {
+        parts.push('{');
+        let empty = true;
+        for (const key of state.keys ?? Object.keys(value)) {
+            const v = prepareValue(state, value, key, (value as Record<string, unknown>)[key]);
+            if (isOmitted(v)) {
+                continue;
+            }
+            if (!empty) parts.push(',');
+            if (gap) parts.push('\n' + inner);
+            parts.push(JSON.stringify(key), gap ? ': ' : ':');
+            if (isObject(v)) {
+                yield writeObject(state, v, inner);
+            } else {
+                writePrimitive(parts, v);
+            }
+            empty = false;
+        }
+        if (!empty && gap) parts.push('\n' + indent);
+        parts.push('}');
+    }
+
+    path.delete(value);
+}
+
+/**
+ * 序列化为 JSON 字符串，支持任意深度的嵌套
+ *
+ * 与 `JSON.stringify` 的行为一致（toJSON、replacer 函数或键数组、space 缩进、
+ * 省略 undefined/函数/symbol、非有限数字输出 null、BigInt 与循环引用抛出 TypeError），
+ * 但不会因为嵌套过深而栈溢出。
+ *
+ * @param value - 要序列化的值
+ * @param replacer - 替换函数，或允许输出的键数组
+ * @param space - 缩进的空格数或字符串
+ * @param options - 运行选项
+ * @returns JSON 字符串；value 无法序列化（如 undefined）时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * let deep: unknown = null;
+ * for (let i = 0; i < 100_000; i++) deep = { next: deep };
+ *
+ * stringify(deep);          // JSON.stringify(deep) 会抛出 RangeError
+ * stringify({ a: [1] }, null, 2);
+ * ```
+ */
+export function stringify(
+    value: unknown,
+    replacer?: Replacer | readonly (string | number)[] | null,
+    space?: string | number,
+    options?: DataOptions
+): string | undefined {
+    let keys: string[] | undefined;
+    if (Array.isArray(replacer)) {
+        keys = [...new Set(replacer.map(String))];
+    }
+
+    let gap = '';
+    if (typeof space === 'number') {
+        gap = ' '.repeat(Math.max(0, Math.min(10, Math.floor(space))));
+    } else if (typeof space === 'string') {
+        gap = space.slice(0, 10);
+    }
+
+    const state: StringifyState = {
+        parts: [],
+        gap,
+        replacer: typeof replacer === 'function' ? replacer : undefined,
+        keys,
+        path: new Set()
+    };
+
+    // 与 JSON.stringify 一样，把根值视为包装对象中键为 "" 的属性
+    const root = prepareValue(state, { '': value }, '', value);
+    if (isOmitted(root)) {
+        return undefined;
+    }
+    if (isObject(root)) {
+        run(writeObject(state, root, ''), options);
+    } else {
+        writePrimitive(state.parts, root);
+    }
+    return state.parts.join('');
+}
+
+// ==================== 解析 ====================
+
+/** parse 的解析状态 */
+interface ParseState {
+    readonly text: string;
+    /** 当前位置 */
+    pos: number;
+}
+
+/** JSON 数字 */
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * 创建与 JSON.parse 风格一致的语法错误
+ */
+function syntaxError(state: ParseState): SyntaxError {
+    if (state.pos >= state.text.length) {
+        return new SyntaxError('Unexpected end of JSON input');
+    }
+    return new SyntaxError(`Unexpected token '${state.text[state.pos]}' in JSON at position ${state.pos}`);
+}
+
+/**
+ * 跳过空白字符
+ */
+function skipWhitespace(state: ParseState): void {
+    const { text } = state;
+    let pos = state.pos;
+    while (pos < text.length) {
+        const c = text.charCodeAt(pos);
+        if (c !== 0x20 && c !== 0x0a && c !== 0x0d && c !== 0x09) {
+            break;
+        }
+        pos++;
+    }
+    state.pos = pos;
+}
+
+/**
+ * 解析字符串（当前位置为起始的双引号）
+ */
+function parseString(state: ParseState): string {
+    const { text } = state;
+    const start = state.pos;
+    let pos = start + 1;
+    let escaped = false;
+    while (pos < text.length) {
+        const c = text.charCodeAt(pos);
+        if (c === 0x22) {
+            break;
+        }
+        if (c < 0x20) {
+            state.pos = pos;
+            throw syntaxError(state);
+        }
+        if (c === 0x5c) {
+            escaped = true;
+            pos++;
+        }
+        pos++;
+    }
+    if (pos >= text.length) {
+        state.pos = text.length;
+        throw syntaxError(state);
+    }
+    state.pos = pos + 1;
+
+    if (!escaped) {
+        return text.slice(start + 1, pos);
+    }
+    // 转义序列交给 JSON.parse 解码（字符串本身没有嵌套，不会栈溢出）
+    try {
+        return JSON.parse(text.slice(start, pos + 1)) as string;
+    } catch {
+        throw new SyntaxError(`Bad escaped character in JSON at position ${start}`);
+    }
+}
+
+/**
+ * 解析非容器的值：字符串、数字、true、false、null
+ */
+function parsePrimitive(state: ParseState): unknown {
+    const { text, pos } = state;
+    const c = text[pos];
+    if (c === '"') {
+        return parseString(state);
+    }
+    if (c === 't' && text.startsWith('true', pos)) {
+        state.pos += 4;
+        return true;
+    }
+    if (c === 'f' && text.startsWith('false', pos)) {
+        state.pos += 5;
+        return false;
+    }
+    if (c === 'n' && text.startsWith('null', pos)) {
+        state.pos += 4;
+        return null;
+    }
+    NUMBER_PATTERN.lastIndex = pos;
+    const match = NUMBER_PATTERN.exec(text);
+    if (match) {
+        state.pos += match[0].length;
+        return Number(match[0]);
+    }
+    throw syntaxError(state);
+}
+
+/**
+ * 判断当前位置是否为对象或数组的开始
+ */
+function atContainer(state: ParseState): boolean {
+    const c = state.text.charCodeAt(state.pos);
+    return c === 0x7b || c === 0x5b;
+}
+
+/**
+ * parse 的递归帧：解析一个对象或数组（当前位置为 `{` 或 `[`）
+ */
+function* parseContainer(state: ParseState): Generator<unknown, object, unknown> {
+    const { text } = state;
+
+    if (text[state.pos++] === '[') {
+        const array: unknown[] = [];
+        skipWhitespace(state);
+        if (text[state.pos] === ']') {
+            state.pos++;
+            return array;
+        }
+        while (true) {
+            skipWhitespace(state);
+            array.push(atContainer(state) ? yield parseContainer(state) : parsePrimitive(state));
+            skipWhitespace(state);
+            const c = text[state.pos];
+            if (c === ',') {
+                state.pos++;
+            } else if (c === ']') {
+                state.pos++;
+                return array;
+            } else {
+                throw syntaxError(state);
+            }
+        }
+    }
+
+    const object: Record<string, unknown> = {};
+    skipWhitespace(state);
+    if (text[state.pos] === '}') {
+        state.pos++;
+        return object;
+    }
+    while (true) {
+        skipWhitespace(state);
+        if (text[state.pos] !== '"') {
+            throw syntaxError(state);
+        }
+        const key = parseString(state);
+        skipWhitespace(state);
+        if (text[state.pos] !== ':') {
+            throw syntaxError(state);
+        }
+        state.pos++;
+        skipWhitespace(state);
+        const value = atContainer(state) ? yield parseContainer(state) : parsePrimitive(state);
+        // 与 JSON.parse 一样，"__proto__" 作为普通的自身属性
+        Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+        skipWhitespace(state);
+        const c = text[state.pos];
+        if (c === ',') {
+            state.pos++;
+        } else if (c === '}') {
+            state.pos++;
+            return object;
+        } else {
+            throw syntaxError(state);
+        }
+    }
+}
+
+/**
+ * reviver 的递归帧：按 JSON.parse 的顺序（后序）对 holder[key] 调用 reviver
+ */
+function* revive(holder: Record<string, unknown>, key: string, reviver: Reviver): Generator<unknown, unknown, unknown> {
+    const value = holder[key];
+    if (isObject(value)) {
+        const record = value as Record<string, unknown>;
+        const keys = Array.isArray(value) ? Array.from(value.keys(), String) : Object.keys(value);
+        for (const k of keys) {
+            const child = record[k];
+            const revived = isObject(child) ? yield revive(record, k, reviver) : reviver.call(record, k, child);
+            if (revived === undefined) {
+                delete record[k];
+            } else {
+                Object.defineProperty(record, k, { value: revived, writable: true, enumerable: true, configurable: true });
+            }
+        }
+    }
+    return reviver.call(holder, key, value);
+}
+
+/**
+ * 解析 JSON 字符串，支持任意深度的嵌套
+ *
+ * 与 `JSON.parse` 的行为一致（包括 reviver 的调用顺序和 `__proto__` 键的处理），
+ * 但不会因为嵌套过深而栈溢出。语法错误抛出 SyntaxError。
+ *
+ * @param text - JSON 字符串
+ * @param reviver - 转换函数
+ * @param options - 运行选项，例如用 maxDepth 拒绝嵌套过深的不可信输入
+ * @returns 解析结果；与 `JSON.parse` 一样声明为 any，以便直接替换它
+ *
+ * @example
+ * ```typescript
+ * const text = '['.repeat(100_000) + ']'.repeat(100_000);
+ * parse(text);                          // JSON.parse(text) 可能抛出 RangeError
+ * parse(text, undefined, { maxDepth: 64 }); // 抛出 RecursionLimitError
+ * ```
+ */
+export function parse(text: string, reviver?: Reviver | null, options?: DataOptions): any {
+    const state: ParseState = { text: String(text), pos: 0 };
+    skipWhitespace(state);
+    const value = atContainer(state) ? run(parseContainer(state), options) : parsePrimitive(state);
+    skipWhitespace(state);
+    if (state.pos < state.text.length) {
+        throw new SyntaxError(`Unexpected non-whitespace character after JSON at position ${state.pos}`);
+    }
+
+    if (typeof reviver !== 'function') {
+        return value;
+    }
+    const root: Record<string, unknown> = { '': value };
+    return isObject(value) ? run(revive(root, '', reviver), options) : reviver.call(root, '', value);
+}
@@ -0,0 +1,536 @@
+/**
+ * RecuRun 图算法
+ *
+ * 深度优先/广度优先遍历、拓扑排序、环检测与强连通分量（Tarjan）。
+ * 所有递归都由 run 的显式栈驱动，即使是数百万个节点组成的长链也不会栈溢出。
+ * 每个算法都有异步版本，其 neighbors 等回调可以返回 Promise。
+ *
+ * @packageDocumentation
+ */
+
+import { run } from './index.js';
+import type { RunOptions } from './index.js';
+
+// ==================== 类型定义 ====================
+
+/** 返回节点的出边邻居，没有邻居时可以返回 null 或 undefined */
+export type Neighbors<N> = (node: N) => Iterable<N> | null | undefined;
+
+/** 异步版本的 {@link Neighbors}，可以返回 Promise */
+export type AsyncNeighbors<N> = (node: N) => Iterable<N> | null | undefined | PromiseLike<Iterable<N> | null | undefined>;
+
+/** 图算法的运行选项 */
+export type GraphOptions = Omit<RunOptions, 'awaitPromises' | 'journal'>;
+
+/** dfs 的选项 */
+export interface DfsOptions<N> extends GraphOptions {
+    /**
+     * 首次访问节点时调用（前序）
+     *
+     * 返回 false 时不再展开该节点的邻居，但仍会调用 post。
+     */
+    pre?: (node: N, parent: N | undefined) => boolean | void;
+
+    /** 节点的所有邻居处理完毕后调用（后序） */
+    post?: (node: N, parent: N | undefined) => void;
+}
+
+/** dfsAsync 的选项，pre 和 post 可以返回 Promise */
+export interface AsyncDfsOptions<N> extends GraphOptions {
+    /**
+     * 首次访问节点时调用（前序）
+     *
+     * 返回（或解析为）false 时不再展开该节点的邻居，但仍会调用 post。
+     */
+    pre?: (node: N, parent: N | undefined) => boolean | void | PromiseLike<boolean | void>;
+
+    /** 节点的所有邻居处理完毕后调用（后序） */
+    post?: (node: N, parent: N | undefined) => void | PromiseLike<void>;
+}
+
+/** bfs 的选项 */
+export interface BfsOptions<N> extends GraphOptions {
+    /**
+     * 访问节点时调用，depth 为到起点的边数
+     *
+     * 返回 false 时不再展开该节点的邻居。
+     */
+    visit?: (node: N, depth: number) => boolean | void;
+}
+
+/** bfsAsync 的选项，visit 可以返回 Promise */
+export interface AsyncBfsOptions<N> extends GraphOptions {
+    /**
+     * 访问节点时调用，depth 为到起点的边数
+     *
+     * 返回（或解析为）false 时不再展开该节点的邻居。
+     */
+    visit?: (node: N, depth: number) => boolean | void | PromiseLike<boolean | void>;
+}
+
+// ==================== 错误类型 ====================
+
+/**
+ * 拓扑排序遇到环时抛出的异常
+ */
+export class CycleError<N = unknown> extends Error {
+    /** 环上的节点，按边的方向排列：cycle[i] → cycle[i + 1]，最后一个节点指回第一个 */
+    readonly cycle: N[];
+
+    constructor(cycle: N[]) {
+        super(`RecuRun: graph contains a cycle of length ${cycle.length}`);
+        this.name = 'CycleError';
+        this.cycle = cycle;
+    }
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 取出回调的结果
+ *
+ * 同步算法直接返回，异步算法把结果包装为 Promise 后 yield，由 awaitPromises 模式等待。
+ * 这样同一套递归帧可以同时用于同步和异步版本。
+ */
+type Lift = <T>(value: T | PromiseLike<T>) => Generator<unknown, T, unknown>;
+
+/** 同步版本的 {@link Lift} */
+function* liftSync<T>(value: T | PromiseLike<T>): Generator<unknown, T, unknown> {
+    return value as T;
+}
+
+/** 异步版本的 {@link Lift} */
+function* liftAsync<T>(value: T | PromiseLike<T>): Generator<unknown, T, unknown> {
+    return (yield Promise.resolve(value)) as T;
+}
+
+/** 运行递归帧 */
+function runSync<T>(frame: Generator<unknown, T, unknown>, options: GraphOptions | undefined): T {
+    return run(frame, options);
+}
+
+/** 以 awaitPromises 模式运行递归帧 */
+function runAsync<T>(frame: Generator<unknown, T, unknown>, options: GraphOptions | undefined): Promise<T> {
+    return run(frame, { ...options, awaitPromises: true });
+}
+
+/**
+ * 从选项中去掉算法自己的回调，只保留运行选项
+ */
+function runOptions<O extends GraphOptions>(options: O | undefined, ...keys: (keyof O)[]): GraphOptions | undefined {
+    if (!options) {
+        return undefined;
+    }
+    const rest = { ...options };
+    for (const key of keys) {
+        delete rest[key];
+    }
+    return rest;
+}
+
+// ==================== 深度优先遍历 ====================
+
+/** dfs 的共享状态 */
+interface DfsContext<N> {
+    readonly neighbors: AsyncNeighbors<N>;
+    readonly pre: AsyncDfsOptions<N>['pre'];
+    readonly post: AsyncDfsOptions<N>['post'];
+    readonly lift: Lift;
+    readonly visited: Set<N>;
+    readonly order: N[];
+}
+
+/**
+ * dfs 的递归帧
+ */
+function* dfsFrame<N>(node: N, parent: N | undefined, ctx: DfsContext<N>): Generator<unknown, void, unknown> {
+    ctx.visited.add(node);
+    ctx.order.push(node);
+
+    const expand = ctx.pre ? yield* ctx.lift(ctx.pre(node, parent)) : undefined;
+    if (expand !== false) {
+        const next = yield* ctx.lift(ctx.neighbors(node));
+        if (next) {
+            for (const child of next) {
+                if (!ctx.visited.has(child)) {
+                    yield dfsFrame(child, node, ctx);
+                }
+            }
+        }
+    }
+
+    if (ctx.post) {
+        yield* ctx.lift(ctx.post(node, parent));
+    }
+}
+
+/**
+ * 创建 dfs 的共享状态
+ */
+function dfsContext<N>(neighbors: AsyncNeighbors<N>, options: AsyncDfsOptions<N> | undefined, lift: Lift): DfsContext<N> {
+    return { neighbors, pre: options?.pre, post: options?.post, lift, visited: new Set(), order: [] };
+}
+
+/**
+ * 从 start 开始深度优先遍历
+ *
+ * 每个可达节点只访问一次（按 SameValueZero 判重），
+ * 邻居按 neighbors 返回的顺序展开。
+ *
+ * @param start - 起点
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - pre/post 回调与运行选项
+ * @returns 所有访问过的节点（前序）
+ *
+ * @example
+ * ```typescript
+ * const order = dfs('a', (n) => graph[n], {
+ *   pre: (node, parent) => console.log('enter', node, 'from', parent),
+ *   post: (node) => console.log('leave', node)
+ * });
+ * ```
+ */
+export function dfs<N>(start: N, neighbors: Neighbors<N>, options?: DfsOptions<N>): N[] {
+    const ctx = dfsContext(neighbors, options, liftSync);
+    runSync(dfsFrame(start, undefined, ctx), runOptions(options, 'pre', 'post'));
+    return ctx.order;
+}
+
+/**
+ * 异步版本的 {@link dfs}，neighbors、pre 和 post 可以返回 Promise
+ *
+ * @param start - 起点
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - pre/post 回调与运行选项
+ * @returns 解析为所有访问过的节点（前序）的 Promise
+ */
+export async function dfsAsync<N>(start: N, neighbors: AsyncNeighbors<N>, options?: AsyncDfsOptions<N>): Promise<N[]> {
+    const ctx = dfsContext(neighbors, options, liftAsync);
+    await runAsync(dfsFrame(start, undefined, ctx), runOptions(options, 'pre', 'post'));
+    return ctx.order;
+}
+
+// ==================== 广度优先遍历 ====================
+
+/**
+ * bfs 的运行帧
+ *
+ * 广度优先遍历本身不需要递归，整个遍历在一个帧中完成；
+ * 放在 run 中执行是为了让 signal、timeoutMs 等选项以及异步等待保持一致。
+ */
+function* bfsFrame<N>(
+    start: N,
+    neighbors: AsyncNeighbors<N>,
+    visit: AsyncBfsOptions<N>['visit'],
+    lift: Lift
+): Generator<unknown, N[], unknown> {
+    const visited = new Set<N>([start]);
+    const order: N[] = [start];
+    let depth = 0;
+    let level: N[] = [start];
+
+    while (level.length > 0) {
+        const nextLevel: N[] = [];
+        for (const node of level) {
+            const expand = visit ? yield* lift(visit(node, depth)) : undefined;
+            if (expand === false) {
+                continue;
+            }
+            const next = yield* lift(neighbors(node));
+            if (next) {
+                for (const child of next) {
+                    if (!visited.has(child)) {
+                        visited.add(child);
+                        order.push(child);
+                        nextLevel.push(child);
+                    }
+                }
+            }
+        }
+        level = nextLevel;
+        depth++;
+    }
+
+    return order;
+}
+
+/**
+ * 从 start 开始广度优先遍历
+ *
+ * @param start - 起点
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - visit 回调与运行选项
+ * @returns 所有访问过的节点，按到起点的距离排列
+ *
+ * @example
+ * ```typescript
+ * bfs('a', (n) => graph[n], { visit: (node, depth) => console.log(node, depth) });
+ * ```
+ */
+export function bfs<N>(start: N, neighbors: Neighbors<N>, options?: BfsOptions<N>): N[] {
+    return runSync(bfsFrame(start, neighbors, options?.visit, liftSync), runOptions(options, 'visit'));
+}
+
+/**
+ * 异步版本的 {@link bfs}，neighbors 和 visit 可以返回 Promise
+ *
+ * @param start - 起点
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - visit 回调与运行选项
+ * @returns 解析为所有访问过的节点的 Promise
+ */
+export function bfsAsync<N>(start: N, neighbors: AsyncNeighbors<N>, options?: AsyncBfsOptions<N>): Promise<N[]> {
+    return runAsync(bfsFrame(start, neighbors, options?.visit, liftAsync), runOptions(options, 'visit'));
+}
+
+// ==================== 拓扑排序与环检测 ====================
+
+/** 正在访问（在当前路径上） */
+const VISITING = 1;
+/** 已访问完毕 */
+const DONE = 2;
+
+/** 拓扑排序与环检测的共享状态 */
+interface TopoContext<N> {
+    readonly neighbors: AsyncNeighbors<N>;
+    readonly lift: Lift;
+    readonly state: Map<N, typeof VISITING | typeof DONE>;
+    /** 当前路径，用于在发现环时取出环上的节点 */
+    readonly path: N[];
+    /** 后序 */
+    readonly order: N[];
+}
+
+/**
+ * 拓扑排序的递归帧
+ *
+ * @returns 发现的环，没有环时返回 undefined
+ */
+function* topoFrame<N>(node: N, ctx: TopoContext<N>): Generator<unknown, N[] | undefined, unknown> {
+    ctx.state.set(node, VISITING);
+    ctx.path.push(node);
+
+    const next = yield* ctx.lift(ctx.neighbors(node));
+    if (next) {
+        for (const child of next) {
+            const state = ctx.state.get(child);
+            if (state === VISITING) {
+                return ctx.path.slice(ctx.path.lastIndexOf(child));
+            }
+            if (state === undefined) {
+                const cycle = (yield topoFrame(child, ctx)) as N[] | undefined;
+                if (cycle) {
+                    return cycle;
+                }
+            }
+        }
+    }
+
+    ctx.path.pop();
+    ctx.state.set(node, DONE);
+    ctx.order.push(node);
+    return undefined;
+}
+
+/**
+ * 依次从每个起点开始拓扑排序
+ */
+function* topoRoots<N>(nodes: Iterable<N>, ctx: TopoContext<N>): Generator<unknown, N[] | undefined, unknown> {
+    for (const node of nodes) {
+        if (!ctx.state.has(node)) {
+            const cycle = (yield topoFrame(node, ctx)) as N[] | undefined;
+            if (cycle) {
+                return cycle;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 创建拓扑排序的共享状态
+ */
+function topoContext<N>(neighbors: AsyncNeighbors<N>, lift: Lift): TopoContext<N> {
+    return { neighbors, lift, state: new Map(), path: [], order: [] };
+}
+
+/**
+ * 拓扑排序
+ *
+ * 结果包含从 nodes 可达的所有节点，每个节点都排在它的所有 neighbors 之前。
+ * 如果 neighbors 返回的是节点的依赖项，把结果反转即可得到依赖优先的顺序。
+ *
+ * @param nodes - 起点（通常是图中的所有节点）
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - 运行选项
+ * @returns 拓扑序
+ * @throws {CycleError} 图中存在环
+ *
+ * @example
+ * ```typescript
+ * const graph = { shirt: ['tie'], tie: ['jacket'], pants: ['shoes', 'jacket'], jacket: [], shoes: [] };
+ * topoSort(Object.keys(graph), (n) => graph[n]);
+ * // ['pants', 'shoes', 'shirt', 'tie', 'jacket']
+ * ```
+ */
+export function topoSort<N>(nodes: Iterable<N>, neighbors: Neighbors<N>, options?: GraphOptions): N[] {
+    const ctx = topoContext(neighbors, liftSync);
+    const cycle = runSync(topoRoots(nodes, ctx), options);
+    if (cycle) {
+        throw new CycleError(cycle);
+    }
+    return ctx.order.reverse();
+}
+
+/**
+ * 异步版本的 {@link topoSort}，neighbors 可以返回 Promise
+ *
+ * @param nodes - 起点（通常是图中的所有节点）
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - 运行选项
+ * @returns 解析为拓扑序的 Promise，图中存在环时以 {@link CycleError} 拒绝
+ */
+export async function topoSortAsync<N>(nodes: Iterable<N>, neighbors: AsyncNeighbors<N>, options?: GraphOptions): Promise<N[]> {
+    const ctx = topoContext(neighbors, liftAsync);
+    const cycle = await runAsync(topoRoots(nodes, ctx), options);
+    if (cycle) {
+        throw new CycleError(cycle);
+    }
+    return ctx.order.reverse();
+}
+
+/**
+ * 查找从 nodes 可达的一个环
+ *
+ * @param nodes - 起点（通常是图中的所有节点）
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - 运行选项
+ * @returns 环上的节点（cycle[i] → cycle[i + 1]，最后一个节点指回第一个），没有环时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * findCycle(['a'], (n) => ({ a: ['b'], b: ['c'], c: ['a'] })[n]); // ['a', 'b', 'c']
+ * ```
+ */
+export function findCycle<N>(nodes: Iterable<N>, neighbors: Neighbors<N>, options?: GraphOptions): N[] | undefined {
+    return runSync(topoRoots(nodes, topoContext(neighbors, liftSync)), options);
+}
+
+/**
+ * 异步版本的 {@link findCycle}，neighbors 可以返回 Promise
+ *
+ * @param nodes - 起点（通常是图中的所有节点）
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - 运行选项
+ * @returns 解析为环上的节点或 undefined 的 Promise
+ */
+export function findCycleAsync<N>(nodes: Iterable<N>, neighbors: AsyncNeighbors<N>, options?: GraphOptions): Promise<N[] | undefined> {
+    return runAsync(topoRoots(nodes, topoContext(neighbors, liftAsync)), options);
+}
+
+// ==================== 强连通分量 ====================
+
+/** Tarjan 算法的共享状态 */
+interface SccContext<N> {
+    readonly neighbors: AsyncNeighbors<N>;
+    readonly lift: Lift;
+    /** 节点的访问序号 */
+    readonly index: Map<N, number>;
+    /** 尚未归入分量的节点 */
+    readonly stack: N[];
+    readonly onStack: Set<N>;
+    readonly components: N[][];
+}
+
+/**
+ * Tarjan 算法的递归帧
+ *
+ * @returns 节点的 lowlink
+ */
+function* sccFrame<N>(node: N, ctx: SccContext<N>): Generator<unknown, number, unknown> {
+    const index = ctx.index.size;
+    let low = index;
+    ctx.index.set(node, index);
+    ctx.stack.push(node);
+    ctx.onStack.add(node);
+
+    const next = yield* ctx.lift(ctx.neighbors(node));
+    if (next) {
+        for (const child of next) {
+            const childIndex = ctx.index.get(child);
+            if (childIndex === undefined) {
+                low = Math.min(low, (yield sccFrame(child, ctx)) as number);
+            } else if (ctx.onStack.has(child)) {
+                low = Math.min(low, childIndex);
+            }
+        }
+    }
+
+    if (low === index) {
+        const component: N[] = [];
+        let member: N;
+        do {
+            member = ctx.stack.pop() as N;
+            ctx.onStack.delete(member);
+            component.push(member);
+        } while (member !== node);
+        ctx.components.push(component);
+    }
+    return low;
+}
+
+/**
+ * 依次从每个起点开始查找强连通分量
+ */
+function* sccRoots<N>(nodes: Iterable<N>, ctx: SccContext<N>): Generator<unknown, N[][], unknown> {
+    for (const node of nodes) {
+        if (!ctx.index.has(node)) {
+            yield sccFrame(node, ctx);
+        }
+    }
+    return ctx.components;
+}
+
+/**
+ * 创建 Tarjan 算法的共享状态
+ */
+function sccContext<N>(neighbors: AsyncNeighbors<N>, lift: Lift): SccContext<N> {
+    return { neighbors, lift, index: new Map(), stack: [], onStack: new Set(), components: [] };
+}
+
+/**
+ * 查找强连通分量（Tarjan 算法）
+ *
+ * 结果包含从 nodes 可达的所有节点。分量按逆拓扑序排列：
+ * 如果分量 A 有边指向分量 B，则 B 排在 A 之前。
+ *
+ * @param nodes - 起点（通常是图中的所有节点）
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - 运行选项
+ * @returns 强连通分量列表
+ *
+ * @example
+ * ```typescript
+ * const graph = { a: ['b'], b: ['a', 'c'], c: [] };
+ * stronglyConnectedComponents(['a'], (n) => graph[n]); // [['c'], ['b', 'a']]
+ * ```
+ */
+export function stronglyConnectedComponents<N>(nodes: Iterable<N>, neighbors: Neighbors<N>, options?: GraphOptions): N[][] {
+    return runSync(sccRoots(nodes, sccContext(neighbors, liftSync)), options);
+}
+
+/**
+ * 异步版本的 {@link stronglyConnectedComponents}，neighbors 可以返回 Promise
+ *
+ * @param nodes - 起点（通常是图中的所有节点）
+ * @param neighbors - 返回节点的出边邻居
+ * @param options - 运行选项
+ * @returns 解析为强连通分量列表的 Promise
+ */
+export function stronglyConnectedComponentsAsync<N>(
+    nodes: Iterable<N>,
+    neighbors: AsyncNeighbors<N>,
+    options?: GraphOptions
+): Promise<N[][]> {
+    return runAsync(sccRoots(nodes, sccContext(neighbors, liftAsync)), options);
+}
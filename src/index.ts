@@ -8,7 +8,363 @@
  */
 
 // ==================== 类型定义 ====================
-// (无 - 不需要额外的类型定义)
+
+/** 运行器指令的标记 */
+const INSTRUCTION = Symbol('recurun.instruction');
+
+/**
+ * 逻辑调用栈追踪选项
+ */
+export interface TraceOptions {
+    /**
+     * 是否在逻辑调用栈中记录每个帧的调用参数
+     *
+     * 参数只对通过 {@link traced} 包装的生成器函数可用。
+     *
+     * @defaultValue false
+     */
+    args?: boolean;
+
+    /**
+     * 追加到 `error.stack` 中的最大行数（折叠重复帧之后）
+     *
+     * @defaultValue 50
+     */
+    limit?: number;
+}
+
+/**
+ * 运行生命周期钩子
+ *
+ * 钩子在运行器驱动帧的过程中同步调用，适合用来采集指标（最大深度、创建的帧数、
+ * 各函数的耗时）和记录日志。未设置的钩子不会带来任何开销。
+ * 钩子应当只做记录：其中抛出的异常会直接从运行器传出。
+ *
+ * 帧的名称可以通过 {@link frameName} 取得。depth 为帧的深度，根帧为 1。
+ */
+export interface RunHooks {
+    /**
+     * 帧被压入显式栈时调用，包括根帧和组合子各分支的根帧
+     *
+     * parent 为调用该帧的帧（组合子的分支为 yield 组合子的帧），根帧和 runTail 的帧为 undefined。
+     * 异步运行中多个分支可能并发执行，应当通过 parent 而不是调用顺序确定调用关系。
+     */
+    onPush?: (
+        frame: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+        depth: number,
+        parent: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown> | undefined
+    ) => void;
+
+    /**
+     * 帧离开显式栈时调用：帧返回、抛出异常，或因运行中止而被关闭之后
+     *
+     * runTail 的尾调用视为弹出当前帧并压入新帧。
+     */
+    onPop?: (frame: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>, depth: number) => void;
+
+    /** 帧 yield 一个值时调用，在运行器处理该值之前 */
+    onYield?: (
+        frame: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+        value: unknown,
+        depth: number
+    ) => void;
+
+    /** 帧抛出了没有在帧内捕获的异常时调用，随后调用 onPop */
+    onError?: (
+        frame: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+        error: unknown,
+        depth: number
+    ) => void;
+
+    /** 根帧正常返回后调用一次 */
+    onComplete?: (result: unknown) => void;
+}
+
+/**
+ * run / runTail 的运行选项
+ */
+export interface RunOptions {
+    /**
+     * 开启逻辑调用栈追踪
+     *
+     * 开启后，递归过程中抛出的异常会被附加 `recurunStack` 属性，
+     * 并在 `error.stack` 末尾追加 "RecuRun logical stack" 一节。
+     *
+     * @defaultValue false
+     */
+    trace?: boolean | TraceOptions;
+
+    /**
+     * 最大递归深度（根帧的深度为 1）
+     *
+     * 压入子帧会使深度超过此值时，运行中止并抛出 {@link RecursionLimitError}。
+     * 仅对 run 有效，runTail 始终只有一个帧。
+     * 同步运行器通过一个额外的帧按顺序运行组合子的子生成器，
+     * 因此组合子的子帧在同步运行中比在异步运行中深一层。
+     *
+     * @defaultValue Infinity
+     */
+    maxDepth?: number;
+
+    /**
+     * 最大执行步数，每次驱动某个帧（调用其 `next()` 或 `throw()`）计为一步
+     *
+     * 超过时运行中止并抛出 {@link StepLimitError}。
+     *
+     * @defaultValue Infinity
+     */
+    maxSteps?: number;
+
+    /**
+     * 运行的最长时间（毫秒）
+     *
+     * 在每一步之前检查，超时后运行中止并抛出 {@link TimeoutError}。
+     * 异步运行中单个 `await` 本身不会被打断。
+     *
+     * @defaultValue 不限制
+     */
+    timeoutMs?: number;
+
+    /**
+     * 用于取消运行的 AbortSignal
+     *
+     * 在每一步之前检查，信号触发后运行中止并以 `signal.reason` 拒绝（同步运行时抛出）。
+     * 生成器可以通过 `yield getSignal()` 取得该信号，传给 `fetch`、定时器等。
+     */
+    signal?: AbortSignal;
+
+    /**
+     * 异步运行中同时执行的最大步数
+     *
+     * all / race 等组合子产生的分支会并发执行，此选项限制同一时刻
+     * 正在等待 `next()`（即正在进行 I/O）的分支数量，超出的分支排队等待。
+     * 等待子分支结果的帧不占用名额，因此不会因递归而死锁。对同步运行无效。
+     *
+     * @defaultValue Infinity
+     */
+    concurrency?: number;
+
+    /**
+     * 等待生成器 yield 出的 Promise（thenable）
+     *
+     * 开启后运行总是异步进行并返回 Promise，同步生成器也可以直接 `yield fetch(url)`：
+     * Promise 兑现的值会送回 yield 处，拒绝的原因则在 yield 处抛出。
+     * yield 出的生成器仍然作为递归调用处理。设置了 concurrency 时，等待 Promise 同样占用名额。
+     *
+     * @defaultValue false
+     */
+    awaitPromises?: boolean;
+
+    /**
+     * 效果处理函数，按效果类型索引
+     *
+     * 生成器 yield 带有字符串 `type` 的对象时，运行器调用同名的处理函数，
+     * 并把结果送回 yield 处。没有对应处理函数的普通对象原样送回。
+     * 子调用可以通过 {@link withHandler} 安装自己的处理函数。
+     */
+    handlers?: EffectHandlers;
+
+    /**
+     * 生命周期钩子，在帧压栈、弹出、yield 和抛出异常时调用
+     *
+     * 对 run、runTail 以及基于它们的所有运行方式都有效。
+     */
+    hooks?: RunHooks;
+
+    /**
+     * 运行日志，仅对 run 有效
+     *
+     * 运行器把每一步送入帧的值（Promise 和效果的结果、子调用的返回值、抛出的异常）
+     * 以及子帧的压栈按顺序追加到该数组中，之后可以用 {@link replay} 不执行效果处理函数地重现这次运行。
+     * 设置后运行总是异步进行并返回 Promise。
+     */
+    journal?: JournalEntry[];
+}
+
+/**
+ * 运行日志中的一项
+ *
+ * - `next`：把 value 送入当前帧
+ * - `throw`：在当前帧的 yield 处抛出 error；Error 以 {@link SerializedError} 的形式保存，
+ *   此时 serialized 为 true，重放时重建为 Error
+ * - `call`：当前帧 yield 的值作为子帧压栈（帧的第一步不记录）
+ * - `branches`：当前帧 yield 的组合子的各分支，每个分支有独立的日志
+ */
+export type JournalEntry =
+    | { readonly type: 'next'; readonly value: unknown }
+    | { readonly type: 'throw'; readonly error: unknown; readonly serialized?: boolean }
+    | { readonly type: 'call' }
+    | { readonly type: 'branches'; readonly branches: JournalEntry[][] };
+
+/**
+ * 运行日志中保存的 Error，可以被 JSON 序列化
+ *
+ * 重放时按 name 重建内置的异常类型（TypeError、RangeError 等），其他名称重建为 Error；
+ * 名称、消息、调用栈和自身的可枚举属性（例如 code）都会被还原。
+ */
+export interface SerializedError {
+    readonly name: string;
+    readonly message: string;
+    readonly stack?: string;
+    /** 异常自身的可枚举属性 */
+    readonly props: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * 分片调度函数：在合适的时机调用 callback 继续执行下一片
+ */
+export type SliceScheduler = (callback: () => void) => void;
+
+/**
+ * runSliced 的运行选项
+ */
+export interface SlicedRunOptions extends Omit<RunOptions, 'awaitPromises' | 'journal'> {
+    /**
+     * 每一片的最长执行时间（毫秒）
+     *
+     * 未指定 sliceMs 和 sliceSteps 时默认为 10。
+     */
+    sliceMs?: number;
+
+    /**
+     * 每一片的最大执行步数
+     */
+    sliceSteps?: number;
+
+    /**
+     * 两片之间让出事件循环的方式
+     *
+     * - `'immediate'`：`setImmediate`（Node.js 默认）
+     * - `'message-channel'`：`MessageChannel`（浏览器默认）
+     * - `'idle'`：`requestIdleCallback`，不可用时退回默认方式
+     * - `'timeout'`：`setTimeout(callback, 0)`
+     * - 自定义函数：接收 callback，在合适的时机调用它
+     */
+    scheduler?: 'immediate' | 'message-channel' | 'idle' | 'timeout' | SliceScheduler;
+}
+
+/**
+ * 运行器指令
+ *
+ * 生成器 yield 指令对象时，运行器不会把它原样送回，
+ * 而是执行对应的操作，并把结果作为 yield 表达式的值送回。
+ *
+ * @typeParam R - 指令送回给生成器的值的类型
+ */
+export interface Instruction<R = unknown> {
+    readonly [INSTRUCTION]: string;
+    /** 仅用于类型推导，运行时不存在 */
+    readonly __result?: R;
+}
+
+/**
+ * 逻辑调用栈中的一帧
+ */
+export interface LogicalFrame {
+    /** 生成器函数名；未通过 {@link traced} 包装时为 `<generator>` 或 `<async generator>` */
+    name: string;
+    /** 调用参数，仅在开启 `trace.args` 时记录 */
+    args?: readonly unknown[];
+}
+
+// ==================== 错误类型 ====================
+
+/**
+ * 清理中止运行的栈帧时出现的异常
+ *
+ * 运行中止时，运行器会按从内到外的顺序调用每个存活帧的 `return()`，
+ * 让其 finally 块得以执行。如果这些 finally 块本身抛出异常，
+ * 它们会与导致中止的原始异常一起汇总到此错误中。
+ *
+ * `errors[0]` 始终是原始异常，其后依次是各帧清理时抛出的异常。
+ */
+export class FrameCleanupError extends AggregateError {
+    /** 导致运行中止的原始异常 */
+    readonly error: unknown;
+
+    /** 各帧 finally 块抛出的异常（按从内到外的顺序） */
+    readonly cleanupErrors: unknown[];
+
+    constructor(error: unknown, cleanupErrors: unknown[]) {
+        super(
+            [error, ...cleanupErrors],
+            `RecuRun: ${cleanupErrors.length} error(s) thrown while cleaning up aborted frames`,
+            { cause: error }
+        );
+        this.name = 'FrameCleanupError';
+        this.error = error;
+        this.cleanupErrors = cleanupErrors;
+    }
+}
+
+/**
+ * 递归深度超过 `maxDepth` 时抛出的异常
+ *
+ * 相当于可控阈值的原生栈溢出（`RangeError: Maximum call stack size exceeded`）。
+ */
+export class RecursionLimitError extends RangeError {
+    /** 配置的最大递归深度 */
+    readonly maxDepth: number;
+
+    /** 触发限制时试图达到的深度 */
+    readonly depth: number;
+
+    /** 栈顶的若干帧，从内到外排列，第一项是未能压入的子帧 */
+    readonly frames: LogicalFrame[];
+
+    constructor(maxDepth: number, frames: LogicalFrame[]) {
+        super(`RecuRun: maximum recursion depth of ${maxDepth} exceeded`);
+        this.name = 'RecursionLimitError';
+        this.maxDepth = maxDepth;
+        this.depth = maxDepth + 1;
+        this.frames = frames;
+    }
+}
+
+/**
+ * 执行步数超过 `maxSteps` 时抛出的异常
+ */
+export class StepLimitError extends Error {
+    /** 配置的最大执行步数 */
+    readonly maxSteps: number;
+
+    constructor(maxSteps: number) {
+        super(`RecuRun: step limit of ${maxSteps} exceeded`);
+        this.name = 'StepLimitError';
+        this.maxSteps = maxSteps;
+    }
+}
+
+/**
+ * 运行时间超过 `timeoutMs` 时抛出的异常
+ */
+export class TimeoutError extends Error {
+    /** 配置的超时时间（毫秒） */
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`RecuRun: run timed out after ${timeoutMs}ms`);
+        this.name = 'TimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * 重放的运行偏离运行日志时抛出的异常
+ *
+ * 说明生成器树的执行不是确定的，例如依赖了时间、随机数，
+ * 或者记忆化缓存等外部状态与记录时不同。
+ */
+export class JournalMismatchError extends Error {
+    /** 偏离处的日志项在所在分支日志中的序号 */
+    readonly position: number;
+
+    constructor(position: number) {
+        super(`RecuRun: the replayed run diverged from the journal at entry ${position}`);
+        this.name = 'JournalMismatchError';
+        this.position = position;
+    }
+}
 
 // ==================== 工具函数 ====================
 
@@ -66,296 +422,3785 @@ export function isAsyncGenerator(v: unknown): v is AsyncGenerator {
         && obj[Symbol.toStringTag] === 'AsyncGenerator';
 }
 
-// ==================== 运行器实现 ====================
-
 /**
- * 运行递归生成器对象（同步和异步通用）
+ * 判断栈帧是否为同步生成器
  *
- * 使用显式栈来模拟函数调用，支持任意复杂的递归结构。
- * 每次遇到 yield 产生的生成器，都会将其推入栈中，
- * 当生成器完成后自动弹出并恢复执行。
+ * 栈帧在压栈时已经过校验，这里只需比较 toStringTag。
+ */
+function isSyncFrame(frame: RecursiveCall): frame is Generator<unknown, unknown> {
+    return (frame as unknown as Record<PropertyKey, unknown>)[Symbol.toStringTag] === 'Generator';
+}
+
+/**
+ * 判断变量是否为 thenable（Promise 或类 Promise 对象）
+ */
+function isThenable(v: unknown): v is PromiseLike<unknown> {
+    return (typeof v === 'object' || typeof v === 'function') && v !== null
+        && typeof (v as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * 判断变量是否为运行器指令
+ */
+function isInstruction(v: unknown): v is Instruction {
+    return typeof v === 'object' && v !== null && INSTRUCTION in v;
+}
+
+// ==================== 运行器指令 ====================
+
+/** getSignal 指令，所有调用共享同一个对象 */
+const GET_SIGNAL: Instruction<AbortSignal | undefined> = { [INSTRUCTION]: 'getSignal' };
+
+/**
+ * 获取当前运行的 AbortSignal
  *
- * 自动检测生成器类型，同步生成器直接返回，异步生成器返回 Promise。
+ * 在生成器中 `yield getSignal()`，运行器会送回 `options.signal`，
+ * 没有传入信号时送回 undefined。
  *
- * @typeParam T - 生成器产生的值的类型
- * @typeParam TReturn - 最终返回值的类型
- * @param generator - 生成器对象（同步或异步）
- * @returns 递归函数的最终返回值（同步直接返回，异步返回 Promise）
+ * @returns 可被 yield 的指令
  *
  * @example
  * ```typescript
- * // 同步斐波那契数列
- * function* fib(n: number): Generator<unknown, number> {
- *   if (n <= 2) return 1;
- *   return (yield fib(n - 1)) + (yield fib(n - 2));
+ * async function* crawl(url: string): AsyncGenerator<unknown, string[]> {
+ *   const signal = (yield getSignal()) as AbortSignal | undefined;
+ *   const res = await fetch(url, { signal });
+ *   // ...
  * }
  *
- * const result = run(fib(10)); // 55
+ * await run(crawl(root), { signal: AbortSignal.timeout(5000) });
  * ```
+ */
+export function getSignal(): Instruction<AbortSignal | undefined> {
+    return GET_SIGNAL;
+}
+
+/** emit 指令 */
+interface EmitInstruction extends Instruction<void> {
+    readonly [INSTRUCTION]: 'emit';
+    readonly value: unknown;
+}
+
+/**
+ * 向流的消费方产出一个值
+ *
+ * 在由 {@link runStream} 运行的生成器中 `yield emit(value)`，
+ * 值会立即交给消费方，无需逐层返回并拼接数组。
+ * 消费方取走下一个值之前，产出该值的帧会一直暂停（背压）。
+ * 在其他运行器中使用时，会在 yield 处抛出 TypeError。
+ *
+ * @param value - 产出的值
+ * @returns 可被 yield 的指令
  *
  * @example
  * ```typescript
- * // 异步斐波那契数列
- * async function* fib(n: number): AsyncGenerator<unknown, number> {
- *   await new Promise(r => setTimeout(r, 1));
- *   if (n <= 2) return 1;
- *   const a = yield fib(n - 1);
- *   const b = yield fib(n - 2);
- *   return a + b;
+ * function* walk(dir: Dir): Generator<unknown, void> {
+ *   for (const entry of dir.entries) {
+ *     if (entry.isDirectory) yield walk(entry);
+ *     else yield emit(entry.path);
+ *   }
  * }
  *
- * const result = await run(fib(10)); // 55
+ * for (const path of runStream<string>(walk(root))) console.log(path);
  * ```
  */
-export function run<T, TReturn>(
-    generator: Generator<T, TReturn>
-): TReturn;
-export function run<T, TReturn>(
-    generator: AsyncGenerator<T, TReturn>
-): Promise<TReturn>;
-export function run<T, TReturn>(
-    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>
-): TReturn | Promise<TReturn> {
-    // 检测是否为异步生成器
-    if (isAsyncGenerator(generator)) {
-        return runAsyncImpl(generator as AsyncGenerator<T, TReturn>);
-    }
-    return runSyncImpl(generator as Generator<T, TReturn>);
+export function emit(value: unknown): Instruction<void> {
+    const instruction: EmitInstruction = { [INSTRUCTION]: 'emit', value };
+    return instruction;
 }
 
 /**
- * 内部同步运行器实现
+ * 判断变量是否为 emit 指令
  */
-function runSyncImpl<T, TReturn>(
-    generator: Generator<T, TReturn>
-): TReturn {
-    // 性能优化：预分配栈容量（常见深度 1024）
-    const stack: Generator<T, TReturn>[] = new Array(1024);
-    let stackSize = 0;
-
-    // 当前执行的生成器
-    let current: Generator<T, TReturn> = generator;
-
-    // 返回值缓存
-    let ret: T | TReturn | unknown = null;
-
-    while (true) {
-        // 驱动当前生成器
-        const r = current.next(ret);
-
-        if (r.done) {
-            // 生成器执行完毕
-            if (stackSize === 0) {
-                return r.value;
-            }
+function isEmit(v: unknown): v is EmitInstruction {
+    return isInstruction(v) && v[INSTRUCTION] === 'emit';
+}
 
-            // 弹出上一个栈帧
-            current = stack[--stackSize]!;
-            if (!current) {
-                throw new Error('Stack frame is undefined');
-            }
-            ret = r.value;
-        } else {
-            // 生成器产生了一个值
-            if (isGenerator(r.value)) {
-                // 产生的是子生成器：压栈
-                stack[stackSize++] = current;
-
-                // 切换到子生成器
-                current = r.value as Generator<T, TReturn>;
-                ret = null;
-            } else {
-                // 产生的是普通值：保存作为下次 next 的参数
-                ret = r.value;
-            }
-        }
-    }
+/**
+ * 在没有消费方的运行器中使用 emit 时抛给生成器的异常
+ */
+function emitError(): TypeError {
+    return new TypeError('RecuRun: emit() can only be used in generators run by runStream()');
 }
 
 /**
- * 内部异步运行器实现
+ * 执行不涉及栈操作的指令，返回送回生成器的值
  */
-async function runAsyncImpl<T, TReturn>(
-    generator: AsyncGenerator<T, TReturn>
-): Promise<TReturn> {
-    // 性能优化：预分配栈容量
-    const stack: AsyncGenerator<T, TReturn>[] = new Array(1024);
-    let stackSize = 0;
+function performInstruction(
+    instruction: Instruction,
+    signal: AbortSignal | undefined,
+    env: Scope | undefined
+): unknown {
+    switch (instruction[INSTRUCTION]) {
+        case 'getSignal':
+            return signal;
+        case 'useContext':
+            return lookupContext(instruction as ContextInstruction, env);
+        default:
+            throw new TypeError(`RecuRun: unknown instruction "${instruction[INSTRUCTION]}"`);
+    }
+}
 
-    // 当前执行的异步生成器
-    let current: AsyncGenerator<T, TReturn> = generator;
+// ==================== 并发组合子 ====================
 
-    // 返回值缓存
-    let ret: T | TReturn | unknown = null;
+/** 可以作为递归调用被 yield 的生成器 */
+type RecursiveCall = Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>;
 
-    while (true) {
-        // 驱动当前异步生成器
-        const r = await current.next(ret);
+/** 递归调用的返回值类型 */
+export type CallResult<G> =
+    G extends Generator<unknown, infer R, unknown> ? R
+    : G extends AsyncGenerator<unknown, infer R, unknown> ? R
+    : never;
 
-        if (r.done) {
-            // 异步生成器执行完毕
-            if (stackSize === 0) {
-                return r.value;
-            }
+/** all 送回的结果元组 */
+export type AllResults<Gs extends readonly unknown[]> = { -readonly [K in keyof Gs]: CallResult<Gs[K]> };
 
-            // 弹出上一个栈帧
-            current = stack[--stackSize]!;
-            if (!current) {
-                throw new Error('Stack frame is undefined');
-            }
-            ret = r.value;
-        } else {
-            // 异步生成器产生了一个值
-            if (isAsyncGenerator(r.value)) {
-                // 产生的是子异步生成器：压栈
-                stack[stackSize++] = current;
-
-                // 切换到子异步生成器
-                current = r.value as AsyncGenerator<T, TReturn>;
-                ret = null;
-            } else {
-                // 产生的是普通值：保存作为下次 next 的参数
-                ret = r.value;
-            }
+/** allSettled 送回的结果元组 */
+export type AllSettledResults<Gs extends readonly unknown[]> = {
+    -readonly [K in keyof Gs]: PromiseSettledResult<CallResult<Gs[K]>>
+};
+
+/** 组合子指令 */
+interface CombinatorInstruction<R = unknown> extends Instruction<R> {
+    readonly [INSTRUCTION]: 'all' | 'race' | 'allSettled' | 'pool';
+    readonly children: readonly RecursiveCall[];
+    /** pool 同时运行的最大分支数 */
+    readonly limit?: number;
+}
+
+/**
+ * 判断变量是否为组合子指令
+ */
+function isCombinator(v: unknown): v is CombinatorInstruction {
+    if (!isInstruction(v)) {
+        return false;
+    }
+    const kind = v[INSTRUCTION];
+    return kind === 'all' || kind === 'race' || kind === 'allSettled' || kind === 'pool';
+}
+
+/**
+ * 创建组合子指令，并校验每个子项都是生成器
+ */
+function combinator<R>(
+    kind: CombinatorInstruction[typeof INSTRUCTION],
+    children: readonly unknown[],
+    limit?: number
+): CombinatorInstruction<R> {
+    for (const child of children) {
+        if (!isGenerator(child) && !isAsyncGenerator(child)) {
+            throw new TypeError(`${kind}: Expected an array of generators`);
         }
     }
+    if (kind === 'race' && children.length === 0) {
+        throw new TypeError('race: Expected at least one generator');
+    }
+    const instruction = { [INSTRUCTION]: kind, children: children as readonly RecursiveCall[] };
+    return limit === undefined ? instruction : { ...instruction, limit };
 }
 
 /**
- * 运行尾递归优化的生成器对象（同步和异步通用）
- *
- * 针对尾递归优化的版本。当使用 yield 调用子生成器时，
- * 不会创建新的栈帧，而是直接切换到子生成器执行，
- * 从而实现常量级的栈空间使用。
+ * 以有限的并发数运行多个递归调用，送回结果元组
  *
- * 自动检测生成器类型，同步生成器直接返回，异步生成器返回 Promise。
+ * 与 {@link all} 相同，但异步运行器同一时刻最多只运行 limit 个子生成器，
+ * 其余的在前面的分支完成后依次启动。同步运行器按顺序依次运行。
  *
- * @typeParam T - 生成器产生的值的类型
- * @typeParam TReturn - 最终返回值的类型
- * @param generator - 生成器对象（同步或异步）
- * @returns 递归函数的最终返回值（同步直接返回，异步返回 Promise）
+ * @param limit - 同时运行的最大分支数
+ * @param generators - 子生成器数组
+ * @returns 可被 yield 的指令
  *
  * @example
  * ```typescript
- * // 同步尾递归阶乘
- * function* factorial(n: number, acc: number = 1): Generator<unknown, number> {
- *   if (n <= 1) return acc;
- *   return yield factorial(n - 1, acc * n);
+ * async function* crawl(url: string): AsyncGenerator<unknown, number> {
+ *   const links = await fetchLinks(url);
+ *   // 每一层最多同时抓取 4 个链接
+ *   const counts = (yield pool(4, links.map(crawl))) as number[];
+ *   return 1 + counts.reduce((a, b) => a + b, 0);
  * }
- *
- * const result = runTail(factorial(100000));
  * ```
+ */
+export function pool<Gs extends readonly RecursiveCall[]>(
+    limit: number,
+    generators: readonly [...Gs]
+): Instruction<AllResults<Gs>> {
+    if (!(limit >= 1)) {
+        throw new RangeError('pool: limit must be >= 1');
+    }
+    return combinator('pool', generators, limit);
+}
+
+/**
+ * 同时运行多个递归调用，送回结果元组
+ *
+ * 异步运行器会并发运行各个子生成器（每个子生成器拥有独立的显式栈），
+ * 任意一个失败时取消其余分支，并在当前帧的 yield 处抛出该异常。
+ * 同步运行器按顺序依次运行，因此同一份代码可以在两种运行器之间移植；
+ * 此时子生成器必须都是同步生成器，否则在 yield 处抛出 TypeError。
+ *
+ * @param generators - 子生成器数组
+ * @returns 可被 yield 的指令
  *
  * @example
  * ```typescript
- * // 异步尾递归阶乘
- * async function* factorial(n: number, acc: number = 1): AsyncGenerator<unknown, number> {
- *   await new Promise(r => setTimeout(r, 1));
- *   if (n <= 1) return acc;
- *   return yield factorial(n - 1, acc * n);
+ * async function* size(dir: string): AsyncGenerator<unknown, number> {
+ *   const entries = await readdir(dir);
+ *   const sizes = (yield all(entries.map(e => size(join(dir, e))))) as number[];
+ *   return sizes.reduce((a, b) => a + b, 0);
  * }
- *
- * const result = await runTail(factorial(100000));
  * ```
  */
-export function runTail<T, TReturn>(
-    generator: AsyncGenerator<T, TReturn>
-): Promise<TReturn>;
-export function runTail<T, TReturn>(
-    generator: Generator<T, TReturn>
-): TReturn;
-export function runTail<T, TReturn>(
-    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>
-): TReturn | Promise<TReturn> {
-    // 检测是否为异步生成器
-    if (isAsyncGenerator(generator)) {
-        return runTailAsyncImpl(generator as AsyncGenerator<T, TReturn>);
-    }
-    return runTailSyncImpl(generator as Generator<T, TReturn>);
+export function all<Gs extends readonly RecursiveCall[]>(generators: readonly [...Gs]): Instruction<AllResults<Gs>> {
+    return combinator('all', generators);
 }
 
 /**
- * 内部同步尾递归运行器实现
+ * 同时运行多个递归调用，送回最先完成的结果
+ *
+ * 异步运行器中，最先完成（或失败）的分支决定结果，其余分支会被取消。
+ * 同步运行器中第一个子生成器总是最先完成，其余子生成器不会运行。
+ *
+ * @param generators - 子生成器数组（至少一个）
+ * @returns 可被 yield 的指令
  */
-function runTailSyncImpl<T, TReturn>(
-    generator: Generator<T, TReturn>
-): TReturn {
-    let current: Generator<T, TReturn> = generator;
-    let ret: T | TReturn | unknown = null;
-
-    while (true) {
-        const r = current.next(ret);
-
-        if (r.done) {
-            return r.value;
-        } else {
-            const value = r.value;
+export function race<Gs extends readonly RecursiveCall[]>(generators: readonly [...Gs]): Instruction<CallResult<Gs[number]>> {
+    return combinator('race', generators);
+}
 
-            // 检查是否为生成器函数(延迟求值)
-            if (typeof value === 'function') {
-                // 调用生成器函数,获取生成器对象
-                const gen = value();
+/**
+ * 同时运行多个递归调用，等待全部结束后送回每个调用的结果或异常
+ *
+ * 结果的格式与 `Promise.allSettled` 相同。
+ * 同步运行器按顺序依次运行。
+ *
+ * @param generators - 子生成器数组
+ * @returns 可被 yield 的指令
+ */
+export function allSettled<Gs extends readonly RecursiveCall[]>(
+    generators: readonly [...Gs]
+): Instruction<AllSettledResults<Gs>> {
+    return combinator('allSettled', generators);
+}
 
-                // 验证是否为有效的生成器
-                if (gen && typeof gen.next === 'function') {
-                    // 直接切换,不压栈(尾递归优化)
-                    current = gen as Generator<T, TReturn>;
-                    ret = null;
-                } else {
-                    throw new TypeError('runTail: Expected a Generator function, but got an invalid generator');
-                }
-            } else if (isGenerator(value)) {
-                // 已经是生成器对象
-                current = value as Generator<T, TReturn>;
-                ret = null;
-            } else {
-                // 普通值,保存作为下次 next 的参数
-                ret = value;
+/**
+ * 把组合子转换为按顺序运行子生成器的同步帧
+ *
+ * 同步运行器把返回的生成器当作普通子帧压栈，子生成器依然运行在显式栈上。
+ * 该帧与其他帧一样计入深度，调用方需保证所有子生成器都是同步生成器。
+ */
+function* sequentialCombinator(instruction: CombinatorInstruction): Generator<unknown, unknown> {
+    const { children } = instruction;
+    let index = 0;
+    try {
+        const kind = instruction[INSTRUCTION];
+        if (kind === 'race') {
+            // 第一个子生成器最先完成，其余的不再运行
+            return yield children[index++];
+        }
+        if (kind === 'all' || kind === 'pool') {
+            const results: unknown[] = [];
+            for (; index < children.length; index++) {
+                results.push(yield children[index]);
+            }
+            return results;
+        }
+        const results: PromiseSettledResult<unknown>[] = [];
+        for (; index < children.length; index++) {
+            try {
+                results.push({ status: 'fulfilled', value: yield children[index] });
+            } catch (reason) {
+                results.push({ status: 'rejected', reason });
             }
         }
+        return results;
+    } finally {
+        // 关闭未运行的子生成器
+        for (; index < children.length; index++) {
+            void children[index]!.return(undefined);
+        }
     }
 }
 
 /**
- * 内部异步尾递归运行器实现
+ * 在异步运行器中并发运行组合子的各个分支
+ *
+ * 每个分支拥有独立的显式栈和派生的取消信号；
+ * 组合子得出结果后（all 失败或 race 决出胜者），仍在运行的分支会被取消，
+ * 并且要等到它们的帧全部关闭后才送回结果。被取消的分支清理时抛出的异常
+ * 汇总为 {@link FrameCleanupError}，中止整个运行。
+ *
+ * @param instruction - 组合子指令
+ * @param shared - 整个运行共享的状态
+ * @param depth - yield 组合子的帧的深度
+ * @param signal - 当前分支的取消信号
+ * @param env - yield 组合子的帧所在的作用域，由各分支继承
+ * @param journals - 各分支的运行日志，未记录时为 undefined
+ * @param parent - yield 组合子的帧
  */
-async function runTailAsyncImpl<T, TReturn>(
-    generator: AsyncGenerator<T, TReturn>
-): Promise<TReturn> {
-    let current: AsyncGenerator<T, TReturn> = generator;
-    let ret: T | TReturn | unknown = null;
+async function runCombinatorAsync(
+    instruction: CombinatorInstruction,
+    shared: AsyncRunShared,
+    depth: number,
+    signal: AbortSignal | undefined,
+    env: Scope | undefined,
+    journals: JournalEntry[][] | undefined,
+    parent: RecursiveCall
+): Promise<unknown> {
+    const controller = new AbortController();
+    const unlink = linkSignal(signal, controller);
+    const running: Promise<unknown>[] = [];
+    const runBranch = (child: RecursiveCall, index: number): Promise<unknown> => {
+        const branch = runAsyncFrames(
+            child, shared, depth, controller.signal, env, journals && (journals[index] ?? []), parent
+        );
+        running.push(branch);
+        return branch;
+    };
+    let result: unknown;
+    let error: unknown;
+    let failed = false;
+    try {
+        switch (instruction[INSTRUCTION]) {
+            case 'all':
+                result = await Promise.all(instruction.children.map(runBranch));
+                break;
+            case 'race':
+                result = await Promise.race(instruction.children.map(runBranch));
+                break;
+            case 'allSettled':
+                result = await Promise.allSettled(instruction.children.map(runBranch));
+                break;
+            case 'pool':
+                result = await runPool(instruction.children, instruction.limit!, runBranch);
+                break;
+        }
+    } catch (thrown) {
+        error = thrown;
+        failed = true;
+    }
 
-    while (true) {
-        const r = await current.next(ret);
+    // 取消仍在运行的分支，等待它们的帧全部关闭后再送回结果
+    controller.abort();
+    const settled = await Promise.allSettled(running);
+    unlink();
 
-        if (r.done) {
-            return r.value;
-        } else {
-            const value = r.value;
+    const reason: unknown = controller.signal.reason;
+    const cleanupErrors: unknown[] = [];
+    for (const outcome of settled) {
+        if (outcome.status === 'rejected' && outcome.reason !== error
+            && outcome.reason instanceof FrameCleanupError && outcome.reason.error === reason) {
+            cleanupErrors.push(...outcome.reason.cleanupErrors);
+        }
+    }
+    if (cleanupErrors.length > 0) {
+        throw markRunAbort(new FrameCleanupError(failed ? error : undefined, cleanupErrors));
+    }
+    if (failed) {
+        throw error;
+    }
+    return result;
+}
 
-            // 检查是否为异步生成器函数(延迟求值)
-            if (typeof value === 'function') {
-                // 调用异步生成器函数,获取异步生成器对象
-                const gen = await value();
+/**
+ * 以有限的并发数运行分支，结果按子生成器的顺序排列
+ *
+ * 任意分支失败时立即拒绝，尚未启动的子生成器会被关闭。
+ */
+function runPool(
+    children: readonly RecursiveCall[],
+    limit: number,
+    runBranch: (child: RecursiveCall, index: number) => Promise<unknown>
+): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+        const results: unknown[] = new Array(children.length);
+        let next = 0;
+        let finished = 0;
+        let failed = false;
 
-                // 验证是否为有效的异步生成器
-                if (gen && typeof gen.next === 'function') {
-                    // 直接切换,不压栈(尾递归优化)
-                    current = gen as AsyncGenerator<T, TReturn>;
-                    ret = null;
-                } else {
-                    throw new TypeError('runTail: Expected an AsyncGenerator function, but got an invalid generator');
+        const launch = (): void => {
+            const index = next++;
+            runBranch(children[index]!, index).then(value => {
+                results[index] = value;
+                if (++finished === children.length) {
+                    resolve(results);
+                } else if (next < children.length && !failed) {
+                    launch();
                 }
-            } else if (isAsyncGenerator(value)) {
-                // 已经是异步生成器对象
-                current = value as AsyncGenerator<T, TReturn>;
-                ret = null;
+            }, error => {
+                if (failed) return;
+                failed = true;
+                // 关闭尚未启动的子生成器
+                for (; next < children.length; next++) {
+                    void children[next]!.return(undefined);
+                }
+                reject(error);
+            });
+        };
+
+        if (children.length === 0) {
+            resolve(results);
+            return;
+        }
+        while (next < children.length && next < limit) {
+            launch();
+        }
+    });
+}
+
+// ==================== 并发限制 ====================
+
+/**
+ * 异步运行的并发限制器（计数信号量）
+ */
+interface Limiter {
+    /** 有空闲名额时占用一个名额并返回 true */
+    tryAcquire(): boolean;
+    /** 等待直到占用到一个名额 */
+    acquire(): Promise<void>;
+    /** 释放一个名额 */
+    release(): void;
+}
+
+/**
+ * 创建并发限制器
+ *
+ * @param limit - 最大并发数
+ */
+function createLimiter(limit: number): Limiter {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+    return {
+        tryAcquire() {
+            if (active < limit) {
+                active++;
+                return true;
+            }
+            return false;
+        },
+        acquire() {
+            // 名额直接移交给等待者，active 计数保持不变
+            return new Promise(resolve => waiting.push(resolve));
+        },
+        release() {
+            const wake = waiting.shift();
+            if (wake) {
+                wake();
             } else {
-                // 普通值,保存作为下次 next 的参数
-                ret = value;
+                active--;
             }
         }
+    };
+}
+
+/**
+ * 让 controller 跟随父信号一起取消
+ *
+ * @returns 解除关联的函数
+ */
+function linkSignal(parent: AbortSignal | undefined, controller: AbortController): () => void {
+    if (!parent) {
+        return () => { };
+    }
+    if (parent.aborted) {
+        controller.abort(parent.reason);
+        return () => { };
+    }
+    const onAbort = (): void => controller.abort(parent.reason);
+    parent.addEventListener('abort', onAbort, { once: true });
+    return () => parent.removeEventListener('abort', onAbort);
+}
+
+// ==================== 记忆化 ====================
+
+/**
+ * 记忆化缓存接口，与 Map 兼容
+ */
+export interface MemoCache<K = unknown, V = unknown> {
+    has(key: K): boolean;
+    get(key: K): V | undefined;
+    set(key: K, value: V): unknown;
+}
+
+/**
+ * memo 的选项
+ */
+export interface MemoOptions<A extends unknown[], R> {
+    /**
+     * 根据参数计算缓存键
+     *
+     * 默认：只有一个参数时直接使用该参数（对象按引用比较），
+     * 否则使用 `JSON.stringify(args)`。
+     */
+    key?: (...args: A) => unknown;
+
+    /**
+     * 缓存实例，可传入 LRU 等自定义实现
+     *
+     * @defaultValue new Map()
+     */
+    cache?: MemoCache<unknown, R>;
+}
+
+/** 记忆化生成器函数，附带其缓存 */
+export type Memoized<F extends (...args: never[]) => RecursiveCall> = F & {
+    readonly cache: MemoCache<unknown, CallResult<ReturnType<F>>>;
+};
+
+/** 一次记忆化调用 */
+interface MemoCall {
+    readonly key: unknown;
+    readonly cache: MemoCache;
+    /** 创建真正执行计算的生成器 */
+    readonly create: () => RecursiveCall;
+    /** 异步运行中正在计算的键（仅异步） */
+    readonly inflight: Map<unknown, Promise<unknown>>;
+}
+
+const memoCalls = new WeakMap<object, MemoCall>();
+
+/** lookupMemo 未命中时的返回值 */
+const MEMO_MISS = Symbol('recurun.memoMiss');
+
+/** 同一计算因分支被取消而中断时，等待者需要重新检查缓存 */
+const MEMO_RETRY = Symbol('recurun.memoRetry');
+
+/**
+ * 异步记忆化帧等待同一个键的计算结果
+ *
+ * 等待由运行器在帧之外进行，这样等待期间不占用并发名额，
+ * 正在计算该键的分支才能继续执行。
+ */
+interface MemoWaitInstruction extends Instruction<unknown> {
+    readonly [INSTRUCTION]: 'memoWait';
+    readonly pending: Promise<unknown>;
+}
+
+/**
+ * 判断变量是否为记忆化等待指令
+ */
+function isMemoWait(v: unknown): v is MemoWaitInstruction {
+    return isInstruction(v) && v[INSTRUCTION] === 'memoWait';
+}
+
+/**
+ * 同步记忆化帧：未命中缓存时运行真正的计算并写入缓存
+ *
+ * 计算通过 `yield*` 委托给真正的生成器，而不是作为子帧压栈，
+ * 因此记忆化调用与普通调用占用相同的深度，调用栈中也只出现一个帧。
+ */
+function* memoFrame(call: MemoCall): Generator<unknown, unknown> {
+    if (call.cache.has(call.key)) {
+        return call.cache.get(call.key);
+    }
+    const value = yield* call.create() as Generator<unknown, unknown>;
+    call.cache.set(call.key, value);
+    return value;
+}
+
+/**
+ * 异步记忆化帧：同一个键正在计算时等待其结果，而不是重复计算
+ */
+async function* memoFrameAsync(call: MemoCall): AsyncGenerator<unknown, unknown> {
+    const { cache, key, inflight } = call;
+    while (true) {
+        if (cache.has(key)) {
+            return cache.get(key);
+        }
+        const pending = inflight.get(key);
+        if (!pending) {
+            break;
+        }
+        const wait: MemoWaitInstruction = { [INSTRUCTION]: 'memoWait', pending };
+        const value: unknown = yield wait;
+        if (value !== MEMO_RETRY) {
+            return value;
+        }
+    }
+
+    let settle!: (value: unknown) => void;
+    let fail!: (error: unknown) => void;
+    const promise = new Promise<unknown>((resolve, reject) => {
+        settle = resolve;
+        fail = reject;
+    });
+    // 没有等待者时忽略拒绝
+    promise.catch(() => { });
+    inflight.set(key, promise);
+
+    let settled = false;
+    try {
+        const value = yield* call.create();
+        cache.set(key, value);
+        settled = true;
+        settle(value);
+        return value;
+    } catch (error) {
+        settled = true;
+        fail(error);
+        throw error;
+    } finally {
+        inflight.delete(key);
+        // 帧被关闭（例如所在分支被取消）时让等待者重新计算
+        if (!settled) {
+            settle(MEMO_RETRY);
+        }
+    }
+}
+
+const memoFramePrototype: object = memoFrame.prototype;
+const memoFrameAsyncPrototype: object = memoFrameAsync.prototype;
+
+/**
+ * 查询记忆化调用的缓存
+ *
+ * 运行器在压栈之前调用，命中时直接把缓存值送回父帧而不压栈。
+ *
+ * @returns 缓存值；不是记忆化调用或未命中时返回 MEMO_MISS
+ */
+function lookupMemo(frame: object): unknown {
+    const proto = Object.getPrototypeOf(frame);
+    if (proto !== memoFramePrototype && proto !== memoFrameAsyncPrototype) {
+        return MEMO_MISS;
+    }
+    const call = memoCalls.get(frame)!;
+    return call.cache.has(call.key) ? call.cache.get(call.key) : MEMO_MISS;
+}
+
+/**
+ * 为递归生成器函数添加记忆化
+ *
+ * 返回的函数与 fn 签名相同，可以在递归中直接 `yield memoized(args)`。
+ * 运行器遇到已缓存的调用时直接送回结果，不会创建新的帧；
+ * 异步运行中同一个键正在计算时，其他分支会等待该结果而不是重复计算。
+ *
+ * 记忆化依赖运行器在子调用完成后恢复父帧，因此在 runTail 中不会写入缓存。
+ *
+ * @param fn - 生成器函数（同步或异步）
+ * @param options - 缓存键和缓存实例
+ * @returns 记忆化的生成器函数，`cache` 属性为其使用的缓存
+ *
+ * @example
+ * ```typescript
+ * const fib = memo(function* (n: number): Generator<unknown, number> {
+ *   if (n <= 2) return 1;
+ *   return (yield fib(n - 1)) + (yield fib(n - 2));
+ * });
+ *
+ * run(fib(1000)); // 线性时间
+ * ```
+ */
+export function memo<F extends (...args: never[]) => RecursiveCall>(
+    fn: F,
+    options: MemoOptions<Parameters<F>, CallResult<ReturnType<F>>> = {}
+): Memoized<F> {
+    const cache: MemoCache = options.cache ?? new Map();
+    const keyOf = options.key ?? ((...args: unknown[]) => args.length === 1 ? args[0] : JSON.stringify(args));
+    const inflight = new Map<unknown, Promise<unknown>>();
+    const name = fn.name || 'memo';
+
+    // 异步生成器函数可以直接识别；其他情况（例如包装函数）在第一次调用时确定
+    let isAsync: boolean | undefined =
+        (fn as { [Symbol.toStringTag]?: unknown })[Symbol.toStringTag] === 'AsyncGeneratorFunction' || undefined;
+
+    const memoized = function (this: unknown, ...args: Parameters<F>): RecursiveCall {
+        let create = (): RecursiveCall => fn.apply(this, args);
+        if (isAsync === undefined) {
+            const first = create();
+            isAsync = isAsyncGenerator(first);
+            create = () => first;
+        }
+        const call: MemoCall = { key: keyOf(...args), cache, create, inflight };
+        const frame = isAsync ? memoFrameAsync(call) : memoFrame(call);
+        memoCalls.set(frame, call);
+        frameInfos.set(frame, { name, args });
+        return frame;
+    };
+    Object.defineProperty(memoized, 'name', { value: name });
+    Object.defineProperty(memoized, 'cache', { value: cache });
+    return memoized as unknown as Memoized<F>;
+}
+
+// ==================== 作用域与上下文 ====================
+
+/** 不提供上下文值的作用域使用的键 */
+const NO_CONTEXT = Symbol('recurun.noContext');
+
+/**
+ * 作用域
+ *
+ * 作用域组成链表，由 `options.handlers`、withHandler 和 provide 创建，
+ * 保存效果处理函数或一个上下文值。
+ */
+interface Scope {
+    readonly handlers: EffectHandlers | undefined;
+    /** provide 提供的上下文键，其他作用域为 NO_CONTEXT */
+    readonly key: unknown;
+    readonly value: unknown;
+    /** 作用域所属的帧，该帧结束（返回或抛出）时退出作用域 */
+    readonly frame: RecursiveCall | undefined;
+    /** 查找处理函数和上下文值时继续查找的外层作用域 */
+    readonly parent: Scope | undefined;
+    /** 退出作用域后恢复的作用域 */
+    readonly caller: Scope | undefined;
+}
+
+/**
+ * 创建运行的根作用域，没有设置 handlers 时为 undefined
+ */
+function rootScope(options: RunOptions): Scope | undefined {
+    return options.handlers
+        ? { handlers: options.handlers, key: NO_CONTEXT, value: undefined, frame: undefined, parent: undefined, caller: undefined }
+        : undefined;
+}
+
+/** withHandler / provide 指令 */
+type ScopeInstruction<R = unknown> = Instruction<R> & { readonly child: RecursiveCall } & (
+    | { readonly [INSTRUCTION]: 'withHandler'; readonly handlers: EffectHandlers }
+    | { readonly [INSTRUCTION]: 'provide'; readonly key: unknown; readonly value: unknown }
+);
+
+/**
+ * 判断变量是否为 withHandler / provide 指令
+ */
+function isScopeInstruction(v: unknown): v is ScopeInstruction {
+    if (!isInstruction(v)) {
+        return false;
+    }
+    const kind = v[INSTRUCTION];
+    return kind === 'withHandler' || kind === 'provide';
+}
+
+/**
+ * 进入 withHandler / provide 指令创建的作用域
+ */
+function enterScope(instruction: ScopeInstruction, env: Scope | undefined): Scope {
+    return instruction[INSTRUCTION] === 'withHandler'
+        ? { handlers: instruction.handlers, key: NO_CONTEXT, value: undefined, frame: instruction.child, parent: env, caller: env }
+        : { handlers: undefined, key: instruction.key, value: instruction.value, frame: instruction.child, parent: env, caller: env };
+}
+
+/** useContext 指令 */
+interface ContextInstruction<R = unknown> extends Instruction<R> {
+    readonly [INSTRUCTION]: 'useContext';
+    readonly key: unknown;
+    readonly defaultValue: unknown;
+}
+
+/**
+ * 在上下文中运行子调用，送回其返回值
+ *
+ * 子调用及其所有后代都可以通过 `yield useContext(key)` 读取 value，
+ * 内层的 provide 会覆盖外层同一个键的值。
+ * 在 runTail 中 provide 以新的上下文尾调用子生成器，之后切换到的帧都继承该上下文。
+ *
+ * @param key - 上下文键，按 `===` 比较
+ * @param value - 上下文值
+ * @param generator - 子生成器
+ * @returns 可被 yield 的指令
+ *
+ * @example
+ * ```typescript
+ * function* print(node: Node): Generator<unknown, string> {
+ *   const indent = (yield useContext('indent', 0)) as number;
+ *   let out = ' '.repeat(indent) + node.name + '\n';
+ *   for (const child of node.children) {
+ *     out += yield provide('indent', indent + 2, print(child));
+ *   }
+ *   return out;
+ * }
+ * ```
+ */
+export function provide<G extends RecursiveCall>(
+    key: unknown,
+    value: unknown,
+    generator: G
+): Instruction<CallResult<G>> {
+    if (!isGenerator(generator) && !isAsyncGenerator(generator)) {
+        throw new TypeError('provide: Expected a generator');
+    }
+    const instruction: ScopeInstruction<CallResult<G>> = {
+        [INSTRUCTION]: 'provide', key, value, child: generator
+    };
+    return instruction;
+}
+
+/**
+ * 读取最近一次 provide 提供的上下文值
+ *
+ * 在生成器中 `yield useContext(key)`，运行器会送回最内层作用域中该键的值，
+ * 没有提供时送回 defaultValue。
+ *
+ * @typeParam T - 上下文值的类型
+ * @param key - 上下文键，按 `===` 比较
+ * @param defaultValue - 没有提供该键时送回的值
+ * @returns 可被 yield 的指令
+ */
+export function useContext<T = unknown>(key: unknown, defaultValue?: T): Instruction<T> {
+    const instruction: ContextInstruction<T> = { [INSTRUCTION]: 'useContext', key, defaultValue };
+    return instruction;
+}
+
+/**
+ * 在作用域链中查找上下文值
+ */
+function lookupContext(instruction: ContextInstruction, env: Scope | undefined): unknown {
+    for (let scope = env; scope !== undefined; scope = scope.parent) {
+        if (scope.key === instruction.key) {
+            return scope.value;
+        }
+    }
+    return instruction.defaultValue;
+}
+
+// ==================== 效果处理 ====================
+
+/**
+ * 效果对象
+ *
+ * 带有字符串 `type` 的对象。生成器 yield 效果对象时，运行器会交给作用域中
+ * 同名的处理函数处理，并把处理结果送回 yield 处。
+ *
+ * @typeParam R - 处理结果的类型
+ */
+export interface Effect<R = unknown> {
+    readonly type: string;
+    /** 仅用于类型推断 */
+    readonly __result?: R;
+}
+
+/**
+ * 效果处理函数
+ *
+ * 可以直接返回结果、抛出异常（在 yield 处抛出），也可以返回生成器或 Promise 稍后恢复：
+ * 生成器作为执行效果的帧的子调用运行，Promise 仅在异步运行中被等待。
+ */
+export type EffectHandler<E = unknown> = (effect: E) => unknown;
+
+/**
+ * 按效果类型索引的处理函数
+ *
+ * 参数类型为 never，针对具体效果类型编写的处理函数都可以放入其中；
+ * 因此处理函数需要自行标注参数的类型，例如 `(e: { payload: string }) => ...`。
+ */
+export type EffectHandlers = Record<string, EffectHandler<never>>;
+
+/** 由 defineEffect 创建的效果对象 */
+export interface DefinedEffect<P, R> extends Effect<R> {
+    readonly payload: P;
+}
+
+/** defineEffect 返回的效果构造函数 */
+export interface EffectCreator<P, R> {
+    (...args: P extends void ? [payload?: P] : [payload: P]): DefinedEffect<P, R>;
+    /** 效果类型，可用作处理函数的键 */
+    readonly type: string;
+}
+
+/** 标记由 defineEffect 创建的效果对象，没有处理函数时报错而不是原样送回 */
+const DEFINED_EFFECT = Symbol('recurun.effect');
+
+/**
+ * 定义一种效果
+ *
+ * 返回的构造函数创建 `{ type, payload }` 效果对象。与普通的 `{ type }` 对象不同，
+ * 由它创建的效果没有对应的处理函数时会在 yield 处抛出 TypeError。
+ *
+ * @typeParam P - 效果携带的数据类型
+ * @typeParam R - 处理结果的类型
+ * @param type - 效果类型
+ * @returns 效果构造函数
+ *
+ * @example
+ * ```typescript
+ * const ask = defineEffect<string, number>('ask');
+ *
+ * function* area(): Generator<unknown, number> {
+ *   const width = (yield ask('width')) as number;
+ *   const height = (yield ask('height')) as number;
+ *   return width * height;
+ * }
+ *
+ * run(area(), { handlers: { [ask.type]: (e: { payload: string }) => config[e.payload] } });
+ * ```
+ */
+export function defineEffect<P = void, R = unknown>(type: string): EffectCreator<P, R> {
+    const create = (payload?: P) => ({ type, payload, [DEFINED_EFFECT]: true }) as DefinedEffect<P, R>;
+    return Object.assign(create, { type }) as EffectCreator<P, R>;
+}
+
+/**
+ * 判断变量是否为效果对象
+ */
+function isEffect(v: unknown): v is Effect {
+    return typeof v === 'object' && v !== null && typeof (v as Effect).type === 'string';
+}
+
+/**
+ * 在新的处理函数作用域中运行子调用，送回其返回值
+ *
+ * 子调用（及其所有后代）yield 的效果优先交给 handlers 处理，
+ * 没有对应处理函数时继续交给外层作用域。
+ *
+ * @param handlers - 按效果类型索引的处理函数
+ * @param generator - 子生成器
+ * @returns 可被 yield 的指令
+ *
+ * @example
+ * ```typescript
+ * function* quiet(node: Node): Generator<unknown, number> {
+ *   // 子树中的 log 效果被忽略
+ *   return (yield withHandler({ log: () => undefined }, visit(node))) as number;
+ * }
+ * ```
+ */
+export function withHandler<G extends RecursiveCall>(
+    handlers: EffectHandlers,
+    generator: G
+): Instruction<CallResult<G>> {
+    if (!isGenerator(generator) && !isAsyncGenerator(generator)) {
+        throw new TypeError('withHandler: Expected a generator');
+    }
+    const instruction: ScopeInstruction<CallResult<G>> = {
+        [INSTRUCTION]: 'withHandler', handlers, child: generator
+    };
+    return instruction;
+}
+
+/** 效果处理的结果 */
+type EffectOutcome =
+    | { readonly kind: 'resume'; readonly value: unknown }
+    | { readonly kind: 'throw'; readonly error: unknown }
+    | { readonly kind: 'call'; readonly child: RecursiveCall; readonly scope: Scope };
+
+/**
+ * 同步运行中遇到异步子调用时在 yield 处抛出的异常
+ */
+function asyncChildError(): TypeError {
+    return new TypeError('run: an async generator cannot be called from a synchronous run');
+}
+
+/**
+ * runTail 中效果处理函数返回生成器时中止运行的异常
+ */
+function effectCallError(effect: Effect): TypeError {
+    return new TypeError(
+        `runTail: the handler for effect "${effect.type}" returned a generator, which is not supported, use run() instead`
+    );
+}
+
+/**
+ * 在作用域链中查找处理函数并执行效果
+ *
+ * 处理函数返回的生成器在处理函数所在作用域的外层作用域中运行，
+ * 因此它产生的同类效果不会再交给自己处理。
+ *
+ * @returns 处理结果；普通对象没有对应的处理函数时返回 undefined（原样送回）
+ */
+function performEffect(effect: Effect, env: Scope | undefined): EffectOutcome | undefined {
+    let scope = env;
+    while (scope !== undefined && !(scope.handlers && Object.hasOwn(scope.handlers, effect.type))) {
+        scope = scope.parent;
+    }
+    if (scope === undefined) {
+        if (DEFINED_EFFECT in effect) {
+            return { kind: 'throw', error: new TypeError(`RecuRun: unhandled effect "${effect.type}"`) };
+        }
+        return undefined;
+    }
+
+    let value: unknown;
+    try {
+        value = (scope.handlers![effect.type] as EffectHandler)(effect);
+    } catch (error) {
+        return { kind: 'throw', error };
+    }
+    if (isGenerator(value) || isAsyncGenerator(value)) {
+        return {
+            kind: 'call',
+            child: value,
+            scope: { handlers: undefined, key: NO_CONTEXT, value: undefined, frame: value, parent: scope.parent, caller: env }
+        };
+    }
+    return { kind: 'resume', value };
+}
+
+// ==================== 逻辑调用栈 ====================
+
+/** 帧的调用信息，由 traced 包装的生成器函数在创建生成器时登记 */
+interface FrameInfo {
+    name: string;
+    args: readonly unknown[];
+}
+
+const frameInfos = new WeakMap<object, FrameInfo>();
+
+/** 生成器函数的 prototype 到函数名的映射，用于识别未经包装直接调用创建的帧 */
+const prototypeNames = new WeakMap<object, string>();
+
+/**
+ * 包装生成器函数，使其创建的帧在逻辑调用栈中带有函数名和参数
+ *
+ * 生成器对象本身无法反查创建它的函数，因此需要通过包装登记调用信息。
+ * 直接调用原函数创建的帧（例如具名函数表达式内部的递归调用）也能识别出函数名，
+ * 但只有通过包装函数创建的帧才会记录参数。
+ * 未包装的帧在逻辑调用栈中显示为 `<generator>` 或 `<async generator>`。
+ *
+ * @param fn - 生成器函数（同步或异步）
+ * @param name - 在逻辑调用栈中显示的名称，默认为 `fn.name`
+ * @returns 与 fn 签名相同的生成器函数
+ *
+ * @example
+ * ```typescript
+ * const fib = traced(function* fib(n: number): Generator<unknown, number> {
+ *   if (n === 0) throw new Error('boom');
+ *   return yield fib(n - 1);
+ * });
+ *
+ * try {
+ *   run(fib(10000), { trace: true });
+ * } catch (e) {
+ *   e.recurunStack; // [{ name: 'fib' }, ...]
+ * }
+ * ```
+ */
+export function traced<A extends unknown[], G extends Generator | AsyncGenerator>(
+    fn: (...args: A) => G,
+    name: string = fn.name
+): (...args: A) => G {
+    if (typeof fn.prototype === 'object' && fn.prototype !== null) {
+        prototypeNames.set(fn.prototype, name);
+    }
+    const wrapper = function (this: unknown, ...args: A): G {
+        const gen = fn.apply(this, args);
+        frameInfos.set(gen, { name, args });
+        return gen;
+    };
+    Object.defineProperty(wrapper, 'name', { value: name });
+    return wrapper;
+}
+
+/**
+ * 取得帧的名称，规则与逻辑调用栈相同
+ *
+ * @param frame - 生成器对象
+ * @returns 生成器函数名；未通过 {@link traced} 包装时为 `<generator>` 或 `<async generator>`
+ */
+export function frameName(frame: object): string {
+    return describeFrame(frame, false).name;
+}
+
+/**
+ * 把 trace 选项规范化为完整配置，未开启时返回 undefined
+ */
+function resolveTrace(trace: RunOptions['trace']): Required<TraceOptions> | undefined {
+    if (!trace) {
+        return undefined;
+    }
+    const config = trace === true ? {} : trace;
+    return {
+        args: config.args ?? false,
+        limit: config.limit ?? 50
+    };
+}
+
+/**
+ * 描述一个帧
+ */
+function describeFrame(frame: object, withArgs: boolean): LogicalFrame {
+    const info = frameInfos.get(frame);
+    if (info) {
+        return withArgs ? { name: info.name, args: info.args } : { name: info.name };
+    }
+    const name = prototypeNames.get(Object.getPrototypeOf(frame) as object);
+    if (name !== undefined) {
+        return { name };
+    }
+    return { name: isAsyncGenerator(frame) ? '<async generator>' : '<generator>' };
+}
+
+/**
+ * 格式化单个帧，参数使用简短的表示
+ */
+function formatFrame(frame: LogicalFrame): string {
+    if (!frame.args) {
+        return frame.name;
+    }
+    const args = frame.args.map(arg => {
+        if (typeof arg === 'string') return JSON.stringify(arg);
+        if (typeof arg === 'object' && arg !== null) return Array.isArray(arg) ? '[Array]' : '[Object]';
+        if (typeof arg === 'function') return '[Function]';
+        return String(arg);
+    });
+    return `${frame.name}(${args.join(', ')})`;
+}
+
+/**
+ * 把逻辑调用栈格式化为文本，连续同名的帧折叠为 `name ×count`
+ */
+function formatLogicalStack(frames: readonly LogicalFrame[], limit: number): string {
+    const lines: string[] = [];
+    let i = 0;
+    while (i < frames.length && lines.length < limit) {
+        const frame = frames[i]!;
+        let j = i + 1;
+        while (j < frames.length && frames[j]!.name === frame.name) {
+            j++;
+        }
+        lines.push(`    at ${formatFrame(frame)}`);
+        // 同名帧的其余部分折叠为一行
+        if (j - i > 1 && lines.length < limit) {
+            lines.push(`    at ${frame.name} ×${j - i - 1}`);
+        }
+        i = j;
+    }
+    if (i < frames.length) {
+        lines.push(`    ... ${frames.length - i} more frame(s)`);
+    }
+    return `RecuRun logical stack:\n${lines.join('\n')}`;
+}
+
+/**
+ * 在异常首次抛出时附加逻辑调用栈
+ *
+ * 已经带有逻辑调用栈的异常（例如被父帧捕获后重新抛出）不会被覆盖。
+ *
+ * @param error - 抛出的异常
+ * @param trace - 追踪配置
+ * @param current - 抛出异常的帧
+ * @param stack - 显式栈
+ * @param stackSize - 显式栈中存活帧的数量
+ */
+function attachLogicalStack(
+    error: unknown,
+    trace: Required<TraceOptions>,
+    current: object,
+    stack: readonly object[],
+    stackSize: number
+): void {
+    if (typeof error !== 'object' || error === null || Object.hasOwn(error, 'recurunStack')) {
+        return;
+    }
+    const recurunStack = liveFrames(current, stack, stackSize).map(frame => describeFrame(frame, trace.args));
+    try {
+        Object.defineProperty(error, 'recurunStack', {
+            value: recurunStack,
+            configurable: true,
+            writable: true
+        });
+        if (error instanceof Error && typeof error.stack === 'string') {
+            error.stack += `\n${formatLogicalStack(recurunStack, trace.limit)}`;
+        }
+    } catch {
+        // 冻结或不可扩展的异常对象无法附加信息，保持原样抛出
+    }
+}
+
+/** RecursionLimitError 中记录的栈顶帧数量 */
+const LIMIT_ERROR_FRAMES = 10;
+
+/**
+ * 创建深度超限异常，记录未能压入的子帧和栈顶的若干帧
+ */
+function createRecursionLimitError(
+    maxDepth: number,
+    trace: Required<TraceOptions> | undefined,
+    child: object,
+    current: object,
+    stack: readonly object[],
+    stackSize: number
+): RecursionLimitError {
+    const withArgs = trace?.args ?? false;
+    const frames = [describeFrame(child, withArgs)];
+    frames.push(describeFrame(current, withArgs));
+    for (let i = stackSize - 1; i >= 0 && frames.length < LIMIT_ERROR_FRAMES; i--) {
+        frames.push(describeFrame(stack[i]!, withArgs));
+    }
+    return new RecursionLimitError(maxDepth, frames);
+}
+
+/**
+ * 根据超出的预算创建对应的异常
+ */
+function createBudgetError(steps: number, maxSteps: number, timeoutMs: number | undefined): Error {
+    return steps > maxSteps ? new StepLimitError(maxSteps) : new TimeoutError(timeoutMs!);
+}
+
+/**
+ * 按从内到外的顺序收集存活的帧
+ */
+function liveFrames<F>(current: F, stack: readonly F[], stackSize: number): F[] {
+    const frames = [current];
+    for (let i = stackSize - 1; i >= 0; i--) {
+        frames.push(stack[i]!);
+    }
+    return frames;
+}
+
+// ==================== 中止与清理 ====================
+
+/**
+ * 关闭中止运行时仍然存活的同步栈帧
+ *
+ * 依次调用每个帧的 `return()` 以执行其 finally 块，
+ * 单个帧清理失败不会影响其余帧的清理。
+ *
+ * @param error - 导致运行中止的异常
+ * @param frames - 存活的栈帧，按从内到外的顺序排列
+ * @returns 应当抛给调用方的异常：没有清理异常时为原始异常，否则为 FrameCleanupError
+ */
+function closeFramesSync(error: unknown, frames: readonly Generator<unknown, unknown>[]): unknown {
+    const cleanupErrors: unknown[] = [];
+    for (const frame of frames) {
+        try {
+            frame.return(undefined);
+        } catch (cleanupError) {
+            cleanupErrors.push(cleanupError);
+        }
+    }
+    return cleanupErrors.length === 0 ? error : new FrameCleanupError(error, cleanupErrors);
+}
+
+/**
+ * 关闭中止运行时仍然存活的异步栈帧
+ *
+ * 与 {@link closeFramesSync} 相同，但会等待每个帧的 `return()` 完成后再关闭下一个。
+ * 异步运行的栈上可以同时存在同步帧和异步帧。
+ *
+ * @param error - 导致运行中止的异常
+ * @param frames - 存活的栈帧，按从内到外的顺序排列
+ * @returns 应当抛给调用方的异常：没有清理异常时为原始异常，否则为 FrameCleanupError
+ */
+async function closeFramesAsync(
+    error: unknown,
+    frames: readonly RecursiveCall[]
+): Promise<unknown> {
+    const cleanupErrors: unknown[] = [];
+    for (const frame of frames) {
+        try {
+            await frame.return(undefined);
+        } catch (cleanupError) {
+            cleanupErrors.push(cleanupError);
+        }
+    }
+    return cleanupErrors.length === 0 ? error : new FrameCleanupError(error, cleanupErrors);
+}
+
+/**
+ * 中止同步运行：附加逻辑调用栈后关闭所有存活的帧
+ *
+ * @returns 应当抛给调用方的异常
+ */
+function abortSync(
+    error: unknown,
+    trace: Required<TraceOptions> | undefined,
+    current: Generator<unknown, unknown>,
+    stack: readonly Generator<unknown, unknown>[],
+    stackSize: number
+): unknown {
+    if (trace) {
+        attachLogicalStack(error, trace, current, stack, stackSize);
+    }
+    return markRunAbort(closeFramesSync(error, liveFrames(current, stack, stackSize)));
+}
+
+/**
+ * 中止异步运行：附加逻辑调用栈后关闭所有存活的帧
+ *
+ * @returns 应当抛给调用方的异常
+ */
+async function abortAsync(
+    error: unknown,
+    trace: Required<TraceOptions> | undefined,
+    current: RecursiveCall,
+    stack: readonly RecursiveCall[],
+    stackSize: number
+): Promise<unknown> {
+    if (trace) {
+        attachLogicalStack(error, trace, current, stack, stackSize);
+    }
+    return markRunAbort(await closeFramesAsync(error, liveFrames(current, stack, stackSize)));
+}
+
+/**
+ * 运行中止、存活的帧被关闭之后，按从内到外的顺序为它们调用 onPop
+ *
+ * @param hooks - 生命周期钩子
+ * @param current - 当前帧
+ * @param stack - 显式栈
+ * @param stackSize - 显式栈中存活帧的数量
+ * @param baseDepth - 栈底帧之上的帧数
+ */
+function popClosedFrames(
+    hooks: RunHooks,
+    current: RecursiveCall,
+    stack: readonly RecursiveCall[],
+    stackSize: number,
+    baseDepth: number
+): void {
+    if (hooks.onPop === undefined) {
+        return;
+    }
+    let depth = baseDepth + stackSize + 1;
+    for (const frame of liveFrames(current, stack, stackSize)) {
+        hooks.onPop(frame, depth--);
+    }
+}
+
+/** 由运行器中止运行时抛出的异常（而不是由帧抛出的异常） */
+const runAborts = new WeakSet<object>();
+
+/**
+ * 记录运行器中止运行时抛出的异常
+ */
+function markRunAbort(error: unknown): unknown {
+    if (typeof error === 'object' && error !== null) {
+        runAborts.add(error);
+    }
+    return error;
+}
+
+/**
+ * 判断异常是否由运行器中止运行时抛出
+ *
+ * 组合子的分支因此类异常失败时，整个运行随之中止，而不是把异常交给父帧处理。
+ */
+function isRunAbort(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && runAborts.has(error);
+}
+
+/**
+ * 等待信号被中止
+ */
+function waitForAbort(signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal.aborted) {
+            resolve();
+        } else {
+            signal.addEventListener('abort', () => resolve(), { once: true });
+        }
+    });
+}
+
+// ==================== 运行器实现 ====================
+
+/**
+ * 运行递归生成器对象（同步和异步通用）
+ *
+ * 使用显式栈来模拟函数调用，支持任意复杂的递归结构。
+ * 每次遇到 yield 产生的生成器，都会将其推入栈中，
+ * 当生成器完成后自动弹出并恢复执行。
+ * 子生成器抛出的异常会在父生成器的 yield 处重新抛出，
+ * 因此可以像原生递归一样用 try/catch 捕获。
+ *
+ * 自动检测生成器类型，同步生成器直接返回，异步生成器返回 Promise。
+ *
+ * @typeParam T - 生成器产生的值的类型
+ * @typeParam TReturn - 最终返回值的类型
+ * @param generator - 生成器对象（同步或异步）
+ * @param options - 运行选项
+ * @returns 递归函数的最终返回值（同步直接返回，异步返回 Promise）
+ *
+ * @example
+ * ```typescript
+ * // 同步斐波那契数列
+ * function* fib(n: number): Generator<unknown, number> {
+ *   if (n <= 2) return 1;
+ *   return (yield fib(n - 1)) + (yield fib(n - 2));
+ * }
+ *
+ * const result = run(fib(10)); // 55
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // 异步斐波那契数列
+ * async function* fib(n: number): AsyncGenerator<unknown, number> {
+ *   await new Promise(r => setTimeout(r, 1));
+ *   if (n <= 2) return 1;
+ *   const a = yield fib(n - 1);
+ *   const b = yield fib(n - 2);
+ *   return a + b;
+ * }
+ *
+ * const result = await run(fib(10)); // 55
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // awaitPromises：同步生成器中直接等待 Promise
+ * function* size(path: string): Generator<unknown, number> {
+ *   const entry = yield stat(path);
+ *   if (!entry.isDirectory) return entry.size;
+ *   let total = 0;
+ *   for (const child of yield readdir(path)) total += yield size(child);
+ *   return total;
+ * }
+ *
+ * const total = await run(size('/'), { awaitPromises: true });
+ * ```
+ */
+export function run<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options: RunOptions & ({ awaitPromises: true } | { journal: JournalEntry[] })
+): Promise<TReturn>;
+export function run<T, TReturn>(
+    generator: Generator<T, TReturn>,
+    options?: RunOptions
+): TReturn;
+export function run<T, TReturn>(
+    generator: AsyncGenerator<T, TReturn>,
+    options?: RunOptions
+): Promise<TReturn>;
+export function run<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options?: RunOptions
+): TReturn | Promise<TReturn>;
+export function run<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options: RunOptions = {}
+): TReturn | Promise<TReturn> {
+    // 异步生成器、awaitPromises 模式和记录运行日志时使用异步运行器
+    if (isAsyncGenerator(generator) || options.awaitPromises || options.journal) {
+        return runAsyncImpl(generator, options);
+    }
+    return runSyncImpl(generator as Generator<T, TReturn>, options);
+}
+
+/**
+ * 内部同步运行器实现
+ */
+function runSyncImpl<T, TReturn>(
+    generator: Generator<T, TReturn>,
+    options: RunOptions
+): TReturn {
+    const machine = new SyncStackMachine(generator, options);
+    machine.advance();
+    return machine.result as TReturn;
+}
+
+/**
+ * 同步显式栈状态机
+ *
+ * 把同步运行器的主循环封装成可以分段驱动的形式：
+ * run 一次性驱动到结束，runSliced 则每驱动一段就把控制权交还给事件循环，
+ * createRunner 则每次只驱动一步，供调试器检查状态。
+ */
+class SyncStackMachine<TReturn> {
+    /** 性能优化：预分配栈容量（常见深度 1024） */
+    private readonly stack: Generator<unknown, unknown>[] = new Array(1024);
+    private stackSize = 0;
+
+    /** 当前执行的生成器 */
+    private current: Generator<unknown, unknown>;
+
+    /** 返回值缓存 */
+    private ret: unknown = null;
+
+    /** 为 true 时 ret 是子帧抛出的异常，需要在当前帧的 yield 处重新抛出 */
+    private throwing = false;
+
+    /** 当前帧所在的作用域（效果处理函数与上下文） */
+    private env: Scope | undefined;
+
+    private readonly trace: Required<TraceOptions> | undefined;
+    private readonly hooks: RunHooks | undefined;
+    private readonly maxDepth: number;
+    private readonly maxSteps: number;
+    private readonly deadline: number;
+
+    /** 已执行的步数 */
+    steps = 0;
+
+    /** 运行是否已经结束 */
+    done = false;
+
+    /** 运行结束后的返回值 */
+    result: TReturn | undefined = undefined;
+
+    /** 流式运行中最近一次 emit 的值 */
+    emitted: unknown = undefined;
+
+    /** 最近一次 yield 的值 */
+    yielded: unknown = undefined;
+
+    /**
+     * @param generator - 根帧
+     * @param options - 运行选项
+     * @param stream - 为 true 时每次 emit 都会暂停状态机，由 runStream 取走产出的值
+     */
+    constructor(
+        generator: Generator<unknown, TReturn>,
+        private readonly options: RunOptions,
+        private readonly stream: boolean = false
+    ) {
+        this.current = generator;
+        this.env = rootScope(options);
+        this.trace = resolveTrace(options.trace);
+        this.hooks = options.hooks;
+        this.maxDepth = options.maxDepth ?? Infinity;
+
+        // 运行预算：步数上限与截止时间
+        this.maxSteps = options.maxSteps ?? Infinity;
+        this.deadline = options.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs;
+    }
+
+    /**
+     * 驱动状态机，直到运行结束、到达暂停点或（流式运行中）产出一个值
+     *
+     * 每次调用至少执行一步。
+     *
+     * @param pauseAtStep - 累计步数达到该值时暂停
+     * @param pauseAtTime - `performance.now()` 达到该值时暂停
+     * @returns 运行是否已经结束
+     */
+    advance(pauseAtStep: number = Infinity, pauseAtTime: number = Infinity): boolean {
+        const { stack, options, trace, hooks, maxDepth, maxSteps, deadline } = this;
+        const signal = options.signal;
+        const startSteps = this.steps;
+
+        if (startSteps === 0 && hooks !== undefined) {
+            hooks.onPush?.(this.current, 1, undefined);
+        }
+
+        // 性能优化：循环中使用局部变量，退出时再写回
+        let stackSize = this.stackSize;
+        let current = this.current;
+        let ret = this.ret;
+        let throwing = this.throwing;
+        let env = this.env;
+        let yielded = this.yielded;
+        let steps = startSteps;
+
+        try {
+            while (true) {
+                // 到达暂停点时交还控制权（每次调用至少执行一步）
+                if (steps !== startSteps
+                    && (steps >= pauseAtStep || (pauseAtTime !== Infinity && performance.now() >= pauseAtTime))) {
+                    return false;
+                }
+
+                // 每一步之前检查运行预算和取消信号
+                if (++steps > maxSteps || (deadline !== Infinity && Date.now() > deadline)) {
+                    throw abortSync(
+                        createBudgetError(steps, maxSteps, options.timeoutMs),
+                        trace, current, stack, stackSize
+                    );
+                }
+                if (signal?.aborted) {
+                    throw abortSync(signal.reason, trace, current, stack, stackSize);
+                }
+
+                // 驱动当前生成器
+                let r: IteratorResult<unknown, unknown>;
+                try {
+                    r = throwing ? current.throw(ret) : current.next(ret);
+                } catch (error) {
+                    if (trace) {
+                        // 异常首次抛出时记录完整的逻辑调用栈
+                        attachLogicalStack(error, trace, current, stack, stackSize);
+                    }
+
+                    // 当前帧没有处理异常：弹出到父帧，像原生递归一样逐层向上传播
+                    if (stackSize === 0) {
+                        this.done = true;
+                    }
+                    if (hooks !== undefined) {
+                        hooks.onError?.(current, error, stackSize + 1);
+                        hooks.onPop?.(current, stackSize + 1);
+                    }
+                    if (stackSize === 0) {
+                        throw error;
+                    }
+                    if (env !== undefined && current === env.frame) {
+                        env = env.caller;
+                    }
+                    current = stack[--stackSize]!;
+                    ret = error;
+                    throwing = true;
+                    continue;
+                }
+                throwing = false;
+
+                if (r.done) {
+                    // 生成器执行完毕
+                    if (hooks !== undefined) {
+                        hooks.onPop?.(current, stackSize + 1);
+                    }
+                    if (stackSize === 0) {
+                        this.done = true;
+                        this.result = r.value as TReturn;
+                        if (hooks !== undefined) {
+                            hooks.onComplete?.(r.value);
+                        }
+                        return true;
+                    }
+
+                    // 弹出上一个栈帧，离开该帧所属的作用域
+                    if (env !== undefined && current === env.frame) {
+                        env = env.caller;
+                    }
+                    current = stack[--stackSize]!;
+                    if (!current) {
+                        throw new Error('Stack frame is undefined');
+                    }
+                    ret = r.value;
+                } else {
+                    // 生成器产生了一个值：子生成器、组合子和作用域需要压栈
+                    yielded = r.value;
+                    if (hooks !== undefined) {
+                        hooks.onYield?.(current, r.value, stackSize + 1);
+                    }
+                    let child: Generator<unknown, unknown> | undefined;
+                    let scope: Scope | undefined;
+                    if (isGenerator(r.value)) {
+                        // 记忆化调用命中缓存时直接送回结果，不压栈
+                        const cached = lookupMemo(r.value);
+                        if (cached === MEMO_MISS) {
+                            child = r.value;
+                        } else {
+                            ret = cached;
+                        }
+                    } else if (isCombinator(r.value)) {
+                        // 同步运行器按顺序运行组合子的各个子生成器
+                        if (r.value.children.every(isGenerator)) {
+                            child = sequentialCombinator(r.value);
+                        } else {
+                            ret = asyncChildError();
+                            throwing = true;
+                        }
+                    } else if (isScopeInstruction(r.value)) {
+                        // withHandler / provide：子生成器在新的作用域中运行
+                        if (isGenerator(r.value.child)) {
+                            scope = enterScope(r.value, env);
+                            child = r.value.child;
+                        } else {
+                            ret = asyncChildError();
+                            throwing = true;
+                        }
+                    } else if (isEmit(r.value)) {
+                        // 流式运行：暂停并把值交给消费方，消费方取下一个值时从这里继续
+                        if (this.stream) {
+                            this.emitted = r.value.value;
+                            ret = undefined;
+                            return false;
+                        }
+                        ret = emitError();
+                        throwing = true;
+                    } else if (isInstruction(r.value)) {
+                        // 指令送回其执行结果
+                        ret = performInstruction(r.value, options.signal, env);
+                    } else if (isEffect(r.value)) {
+                        // 效果交给作用域中的处理函数
+                        const outcome = performEffect(r.value, env);
+                        if (outcome === undefined) {
+                            ret = r.value;
+                        } else if (outcome.kind === 'call') {
+                            if (isGenerator(outcome.child)) {
+                                scope = outcome.scope;
+                                child = outcome.child;
+                            } else {
+                                ret = asyncChildError();
+                                throwing = true;
+                            }
+                        } else if (outcome.kind === 'throw') {
+                            ret = outcome.error;
+                            throwing = true;
+                        } else if (isThenable(outcome.value)) {
+                            ret = new TypeError(
+                                `run: the handler for effect "${r.value.type}" returned a Promise, which requires an async run`
+                            );
+                            throwing = true;
+                        } else {
+                            ret = outcome.value;
+                        }
+                    } else {
+                        // 产生的是普通值：保存作为下次 next 的参数
+                        ret = r.value;
+                    }
+
+                    if (child) {
+                        // 子帧的深度为 stackSize + 2，超过限制时中止运行
+                        if (stackSize + 2 > maxDepth) {
+                            throw abortSync(
+                                createRecursionLimitError(maxDepth, trace, child, current, stack, stackSize),
+                                trace, current, stack, stackSize
+                            );
+                        }
+
+                        // 压栈并切换到子生成器
+                        stack[stackSize++] = current;
+                        current = child;
+                        ret = null;
+                        if (scope !== undefined) {
+                            env = scope;
+                        }
+                        if (hooks !== undefined) {
+                            hooks.onPush?.(current, stackSize + 1, stack[stackSize - 1]);
+                        }
+                    }
+                }
+            }
+        } catch (error) {
+            if (this.done) {
+                throw error;
+            }
+            // 运行中止：运行器中止时存活的帧已经被关闭，其他异常（如钩子抛出的异常）需要在这里关闭它们
+            this.done = true;
+            const thrown = isRunAbort(error) ? error : abortSync(error, trace, current, stack, stackSize);
+            if (hooks !== undefined) {
+                popClosedFrames(hooks, current, stack, stackSize, 0);
+            }
+            throw thrown;
+        } finally {
+            this.stackSize = stackSize;
+            this.current = current;
+            this.ret = ret;
+            this.throwing = throwing;
+            this.env = env;
+            this.yielded = yielded;
+            this.steps = steps;
+        }
+    }
+
+    /** 当前深度，根帧为 1 */
+    get depth(): number {
+        return this.stackSize + 1;
+    }
+
+    /**
+     * 按从内到外的顺序收集存活的帧
+     */
+    frames(): Generator<unknown, unknown>[] {
+        return liveFrames(this.current, this.stack, this.stackSize);
+    }
+
+    /**
+     * 提前结束运行：按从内到外的顺序关闭所有存活的帧，执行它们的 finally 块
+     *
+     * @throws {FrameCleanupError} 有帧的 finally 块抛出异常
+     */
+    close(): void {
+        if (this.done) {
+            return;
+        }
+        this.done = true;
+        const error = closeFramesSync(undefined, liveFrames(this.current, this.stack, this.stackSize));
+        if (this.hooks !== undefined) {
+            popClosedFrames(this.hooks, this.current, this.stack, this.stackSize, 0);
+        }
+        if (error !== undefined) {
+            throw error;
+        }
+    }
+}
+
+/**
+ * 同一次异步运行中所有分支共享的状态
+ *
+ * all / race 等组合子并发运行的分支各自拥有独立的显式栈，
+ * 但共享运行预算（步数、截止时间）和深度限制。
+ */
+interface AsyncRunShared {
+    readonly options: RunOptions;
+    readonly trace: Required<TraceOptions> | undefined;
+    readonly hooks: RunHooks | undefined;
+    readonly maxDepth: number;
+    readonly maxSteps: number;
+    readonly deadline: number;
+    /** 并发限制器，未设置 concurrency 时为 undefined */
+    readonly limiter: Limiter | undefined;
+    /** 所有分支累计执行的步数 */
+    steps: number;
+    /**
+     * 流式运行中把 emit 的值交给消费方，消费方取走下一个值（或 signal 中止）时兑现；
+     * 非流式运行时为 undefined
+     */
+    readonly emit: ((value: unknown, signal: AbortSignal | undefined) => Promise<void>) | undefined;
+    /** 为 true 时按运行日志重放，而不是记录 */
+    readonly replay: boolean;
+}
+
+/**
+ * 内部异步运行器实现
+ */
+function runAsyncImpl<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options: RunOptions,
+    emit?: AsyncRunShared['emit'],
+    replay: boolean = false
+): Promise<TReturn> {
+    if (options.concurrency !== undefined && !(options.concurrency >= 1)) {
+        return Promise.reject(new RangeError('run: concurrency must be >= 1'));
+    }
+    const shared: AsyncRunShared = {
+        options,
+        trace: resolveTrace(options.trace),
+        hooks: options.hooks,
+        maxDepth: options.maxDepth ?? Infinity,
+        // 运行预算：步数上限与截止时间
+        maxSteps: options.maxSteps ?? Infinity,
+        deadline: options.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs,
+        limiter: options.concurrency === undefined ? undefined : createLimiter(options.concurrency),
+        steps: 0,
+        emit,
+        replay
+    };
+    return runAsyncFrames(
+        generator as RecursiveCall, shared, 0, options.signal, rootScope(options), options.journal
+    ) as Promise<TReturn>;
+}
+
+/**
+ * 用显式栈驱动一个异步分支
+ *
+ * @param generator - 分支的根帧
+ * @param shared - 整个运行共享的状态
+ * @param baseDepth - 分支根帧之上的帧数（顶层运行为 0）
+ * @param signal - 分支的取消信号，组合子会为分支派生新的信号
+ * @param env - 分支根帧所在的作用域
+ * @param journal - 分支的运行日志，未记录时为 undefined
+ * @param parent - yield 组合子的帧（顶层运行为 undefined），仅用于 onPush 钩子
+ */
+async function runAsyncFrames(
+    generator: RecursiveCall,
+    shared: AsyncRunShared,
+    baseDepth: number,
+    signal: AbortSignal | undefined,
+    env: Scope | undefined,
+    journal: JournalEntry[] | undefined,
+    parent?: RecursiveCall
+): Promise<unknown> {
+    const { options, trace, hooks, maxDepth, maxSteps, deadline, limiter, replay } = shared;
+    const awaitPromises = options.awaitPromises === true;
+
+    // 运行日志：重放时读到的位置，以及当前帧是否即将执行第一步（第一步送入的值总是 null，不记录）
+    let position = 0;
+    let entering = true;
+
+    // 性能优化：预分配栈容量
+    const stack: RecursiveCall[] = new Array(1024);
+    let stackSize = 0;
+
+    // 当前执行的生成器（同步或异步）
+    let current: RecursiveCall = generator;
+
+    // 返回值缓存
+    let ret: unknown = null;
+
+    // 为 true 时 ret 是子帧抛出的异常，需要在当前帧的 yield 处重新抛出
+    let throwing = false;
+
+    // 根帧已经返回或抛出异常（此后离开运行器的异常不再需要为存活的帧调用 onPop）
+    let settled = false;
+
+    if (hooks !== undefined) {
+        hooks.onPush?.(generator, baseDepth + 1, parent);
+    }
+
+    try {
+        while (true) {
+            // 每一步之前检查运行预算和取消信号
+            if (++shared.steps > maxSteps || (deadline !== Infinity && Date.now() > deadline)) {
+                throw await abortAsync(
+                    createBudgetError(shared.steps, maxSteps, options.timeoutMs),
+                    trace, current, stack, stackSize
+                );
+            }
+            if (signal?.aborted) {
+                throw await abortAsync(signal.reason, trace, current, stack, stackSize);
+            }
+
+            // 记录送入当前帧的值；重放时改为从日志中读取
+            if (journal !== undefined) {
+                if (entering) {
+                    entering = false;
+                } else if (!replay) {
+                    journal.push(throwing ? throwEntry(ret) : { type: 'next', value: ret });
+                } else {
+                    const entry = journal[position];
+                    if (entry?.type === 'next' || entry?.type === 'throw') {
+                        position++;
+                        throwing = entry.type === 'throw';
+                        ret = entry.type === 'next' ? entry.value
+                            : entry.serialized ? reviveError(entry.error as SerializedError) : entry.error;
+                    } else if (entry === undefined && baseDepth > 0) {
+                        // 分支在记录时被取消，日志到此为止：等待它在重放中同样被取消
+                        await waitForAbort(signal!);
+                        continue;
+                    } else {
+                        throw await abortAsync(new JournalMismatchError(position), trace, current, stack, stackSize);
+                    }
+                }
+            }
+
+            // 同步帧直接驱动，不为每一步等待一次微任务
+            const syncFrame = isSyncFrame(current);
+
+            // 设置了并发限制时，驱动异步生成器之前先占用一个名额；
+            // awaitPromises 模式下同步帧可能发起 I/O（产生 Promise），同样需要占用
+            const limited = limiter !== undefined && (!syncFrame || awaitPromises);
+            if (limited && !limiter.tryAcquire()) {
+                await limiter.acquire();
+            }
+
+            // 驱动当前生成器
+            let r: IteratorResult<unknown, unknown>;
+            try {
+                if (syncFrame) {
+                    const frame = current as Generator<unknown, unknown>;
+                    r = throwing ? frame.throw(ret) : frame.next(ret);
+                } else {
+                    const frame = current as AsyncGenerator<unknown, unknown>;
+                    r = await (throwing ? frame.throw(ret) : frame.next(ret));
+                }
+            } catch (error) {
+                if (limited) limiter.release();
+                if (trace) {
+                    // 异常首次抛出时记录完整的逻辑调用栈
+                    attachLogicalStack(error, trace, current, stack, stackSize);
+                }
+
+                // 当前帧没有处理异常：弹出到父帧，像原生递归一样逐层向上传播
+                if (stackSize === 0) {
+                    settled = true;
+                }
+                if (hooks !== undefined) {
+                    hooks.onError?.(current, error, baseDepth + stackSize + 1);
+                    hooks.onPop?.(current, baseDepth + stackSize + 1);
+                }
+                if (stackSize === 0) {
+                    throw error;
+                }
+                if (env !== undefined && current === env.frame) {
+                    env = env.caller;
+                }
+                current = stack[--stackSize]!;
+                ret = error;
+                throwing = true;
+                continue;
+            }
+            throwing = false;
+
+            // 产生了需要等待的 Promise 时继续占用名额，直到它完成（重放时不等待）
+            if (limited && (r.done || !awaitPromises || replay || !isThenable(r.value))) {
+                limiter.release();
+            }
+
+            if (r.done) {
+                // 生成器执行完毕
+                if (stackSize === 0) {
+                    settled = true;
+                }
+                if (hooks !== undefined) {
+                    hooks.onPop?.(current, baseDepth + stackSize + 1);
+                }
+                if (stackSize === 0) {
+                    if (replay && baseDepth === 0 && position < journal!.length) {
+                        throw new JournalMismatchError(position);
+                    }
+                    if (hooks !== undefined && baseDepth === 0) {
+                        hooks.onComplete?.(r.value);
+                    }
+                    return r.value;
+                }
+
+                // 弹出上一个栈帧，离开该帧所属的作用域
+                if (env !== undefined && current === env.frame) {
+                    env = env.caller;
+                }
+                current = stack[--stackSize]!;
+                if (!current) {
+                    throw new Error('Stack frame is undefined');
+                }
+                ret = r.value;
+            } else {
+                // 生成器产生了一个值：子生成器和作用域需要压栈
+                const value = r.value;
+                if (hooks !== undefined) {
+                    hooks.onYield?.(current, value, baseDepth + stackSize + 1);
+                }
+                let child: RecursiveCall | undefined;
+                let scope: Scope | undefined;
+                if (replay) {
+                    // 重放：只按日志压入子帧、运行组合子的分支，
+                    // 其他值（效果、指令）不执行、Promise 不等待，下一步直接从日志中读取结果
+                    const entry = journal![position];
+                    if (entry?.type === 'call') {
+                        position++;
+                        const call = replayCall(value, env);
+                        if (call === undefined) {
+                            throw await abortAsync(new JournalMismatchError(position - 1), trace, current, stack, stackSize);
+                        }
+                        child = call.child;
+                        scope = call.scope;
+                    } else if (entry?.type === 'branches' && isCombinator(value)) {
+                        position++;
+                        try {
+                            await runCombinatorAsync(
+                                value, shared, baseDepth + stackSize + 1, signal, env, entry.branches, current
+                            );
+                        } catch (error) {
+                            if (isRunAbort(error) || signal?.aborted) {
+                                throw await abortAsync(error, trace, current, stack, stackSize);
+                            }
+                        }
+                    } else if (isThenable(value)) {
+                        // 不等待帧发起的 Promise，但避免其拒绝成为未处理的拒绝
+                        value.then(undefined, () => { });
+                    }
+                } else if (isGenerator(value) || isAsyncGenerator(value)) {
+                    // 记忆化调用命中缓存时直接送回结果，不压栈
+                    const cached = lookupMemo(value);
+                    if (cached === MEMO_MISS) {
+                        child = value;
+                    } else {
+                        ret = cached;
+                    }
+                } else if (isCombinator(value)) {
+                    // 各分支根帧的深度同样为 baseDepth + stackSize + 2
+                    if (baseDepth + stackSize + 2 > maxDepth && value.children.length > 0) {
+                        throw await abortAsync(
+                            createRecursionLimitError(maxDepth, trace, value.children[0]!, current, stack, stackSize),
+                            trace, current, stack, stackSize
+                        );
+                    }
+
+                    // 组合子：并发运行各个子生成器，结果（或异常）送回当前帧
+                    let branches: JournalEntry[][] | undefined;
+                    if (journal !== undefined) {
+                        branches = value.children.map(() => []);
+                        journal.push({ type: 'branches', branches });
+                    }
+                    try {
+                        ret = await runCombinatorAsync(
+                            value, shared, baseDepth + stackSize + 1, signal, env, branches, current
+                        );
+                    } catch (error) {
+                        // 分支因运行预算、深度限制或取消信号而中止时，整个运行随之中止
+                        if (isRunAbort(error) || signal?.aborted) {
+                            throw await abortAsync(error, trace, current, stack, stackSize);
+                        }
+                        ret = error;
+                        throwing = true;
+                    }
+                } else if (awaitPromises && isThenable(value)) {
+                    // 等待 Promise：兑现的值送回当前帧，拒绝的原因在 yield 处抛出
+                    // （产生它的那一步占用的并发名额在这里释放）
+                    try {
+                        ret = await value;
+                    } catch (error) {
+                        ret = error;
+                        throwing = true;
+                    } finally {
+                        limiter?.release();
+                    }
+                } else if (isScopeInstruction(value)) {
+                    // withHandler / provide：子生成器在新的作用域中运行
+                    scope = enterScope(value, env);
+                    child = value.child;
+                } else if (isMemoWait(value)) {
+                    // 记忆化帧等待其他分支的计算结果（产生它的那一步占用的并发名额已经释放）
+                    try {
+                        ret = await value.pending;
+                    } catch (error) {
+                        ret = error;
+                        throwing = true;
+                    }
+                } else if (isEmit(value)) {
+                    // 流式运行：等待消费方取走该值后再继续（背压）
+                    if (shared.emit) {
+                        ret = undefined;
+                        await shared.emit(value.value, signal);
+                    } else {
+                        ret = emitError();
+                        throwing = true;
+                    }
+                } else if (isInstruction(value)) {
+                    // 指令送回其执行结果
+                    ret = performInstruction(value, signal, env);
+                } else if (isEffect(value)) {
+                    // 效果交给作用域中的处理函数，处理函数返回的 Promise 会被等待
+                    const outcome = performEffect(value, env);
+                    if (outcome === undefined) {
+                        ret = value;
+                    } else if (outcome.kind === 'call') {
+                        scope = outcome.scope;
+                        child = outcome.child;
+                    } else if (outcome.kind === 'throw') {
+                        ret = outcome.error;
+                        throwing = true;
+                    } else if (isThenable(outcome.value)) {
+                        try {
+                            ret = await outcome.value;
+                        } catch (error) {
+                            ret = error;
+                            throwing = true;
+                        }
+                    } else {
+                        ret = outcome.value;
+                    }
+                } else {
+                    // 产生的是普通值：保存作为下次 next 的参数
+                    ret = value;
+                }
+
+                if (child !== undefined) {
+                    // 子帧的深度为 baseDepth + stackSize + 2，超过限制时中止运行
+                    if (baseDepth + stackSize + 2 > maxDepth) {
+                        throw await abortAsync(
+                            createRecursionLimitError(maxDepth, trace, child, current, stack, stackSize),
+                            trace, current, stack, stackSize
+                        );
+                    }
+
+                    // 压栈并切换到子生成器（同步或异步）
+                    stack[stackSize++] = current;
+                    current = child;
+                    ret = null;
+                    if (scope !== undefined) {
+                        env = scope;
+                    }
+                    if (hooks !== undefined) {
+                        hooks.onPush?.(current, baseDepth + stackSize + 1, stack[stackSize - 1]);
+                    }
+                    if (journal !== undefined) {
+                        entering = true;
+                        if (!replay) {
+                            journal.push(CALL_ENTRY);
+                        }
+                    }
+                }
+            }
+        }
+    } catch (error) {
+        if (settled) {
+            throw error;
+        }
+        // 运行中止：运行器中止时存活的帧已经被关闭，其他异常（如钩子抛出的异常）需要在这里关闭它们
+        const thrown = isRunAbort(error) ? error : await abortAsync(error, trace, current, stack, stackSize);
+        if (hooks !== undefined) {
+            popClosedFrames(hooks, current, stack, stackSize, baseDepth);
+        }
+        throw thrown;
+    }
+}
+
+/**
+ * 运行尾递归优化的生成器对象（同步和异步通用）
+ *
+ * 针对尾递归优化的版本。当使用 yield 调用子生成器时，
+ * 不会创建新的栈帧，而是直接切换到子生成器执行，
+ * 从而实现常量级的栈空间使用。
+ *
+ * 自动检测生成器类型，同步生成器直接返回，异步生成器返回 Promise。
+ *
+ * @typeParam T - 生成器产生的值的类型
+ * @typeParam TReturn - 最终返回值的类型
+ * @param generator - 生成器对象（同步或异步）
+ * @param options - 运行选项
+ * @returns 递归函数的最终返回值（同步直接返回，异步返回 Promise）
+ *
+ * @example
+ * ```typescript
+ * // 同步尾递归阶乘
+ * function* factorial(n: number, acc: number = 1): Generator<unknown, number> {
+ *   if (n <= 1) return acc;
+ *   return yield factorial(n - 1, acc * n);
+ * }
+ *
+ * const result = runTail(factorial(100000));
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // 异步尾递归阶乘
+ * async function* factorial(n: number, acc: number = 1): AsyncGenerator<unknown, number> {
+ *   await new Promise(r => setTimeout(r, 1));
+ *   if (n <= 1) return acc;
+ *   return yield factorial(n - 1, acc * n);
+ * }
+ *
+ * const result = await runTail(factorial(100000));
+ * ```
+ */
+export function runTail<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options: RunOptions & { awaitPromises: true }
+): Promise<TReturn>;
+export function runTail<T, TReturn>(
+    generator: AsyncGenerator<T, TReturn>,
+    options?: RunOptions
+): Promise<TReturn>;
+export function runTail<T, TReturn>(
+    generator: Generator<T, TReturn>,
+    options?: RunOptions
+): TReturn;
+export function runTail<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options?: RunOptions
+): TReturn | Promise<TReturn>;
+export function runTail<T, TReturn>(
+    generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    options: RunOptions = {}
+): TReturn | Promise<TReturn> {
+    // 异步生成器或 awaitPromises 模式使用异步运行器
+    if (isAsyncGenerator(generator) || options.awaitPromises) {
+        return runTailAsyncImpl(generator, options);
+    }
+    return runTailSyncImpl(generator as Generator<T, TReturn>, options);
+}
+
+/**
+ * 尾调用切换帧时调用钩子：视为弹出当前帧并压入新帧
+ */
+function tailCallHooks(hooks: RunHooks, from: RecursiveCall, to: RecursiveCall): void {
+    hooks.onPop?.(from, 1);
+    hooks.onPush?.(to, 1, undefined);
+}
+
+/**
+ * 内部同步尾递归运行器实现
+ */
+function runTailSyncImpl<T, TReturn>(
+    generator: Generator<T, TReturn>,
+    options: RunOptions
+): TReturn {
+    const trace = resolveTrace(options.trace);
+
+    // 运行预算：步数上限与截止时间
+    const maxSteps = options.maxSteps ?? Infinity;
+    const deadline = options.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs;
+    let steps = 0;
+    const signal = options.signal;
+    const hooks = options.hooks;
+
+    let current: Generator<T, TReturn> = generator;
+    let ret: T | TReturn | unknown = null;
+
+    // 为 true 时 ret 是效果处理函数抛出的异常，需要在当前帧的 yield 处抛出
+    let throwing = false;
+
+    // 作用域（效果处理函数与上下文），尾调用切换到的帧继承调用方的作用域
+    let env = rootScope(options);
+
+    // 当前帧已经返回或抛出异常（此后离开运行器的异常不再需要为它调用 onPop）
+    let settled = false;
+
+    if (hooks !== undefined) {
+        hooks.onPush?.(current, 1, undefined);
+    }
+
+    try {
+        while (true) {
+            // 每一步之前检查运行预算和取消信号
+            if (++steps > maxSteps || (deadline !== Infinity && Date.now() > deadline)) {
+                throw abortSync(
+                    createBudgetError(steps, maxSteps, options.timeoutMs),
+                    trace, current, [], 0
+                );
+            }
+            if (signal?.aborted) {
+                throw abortSync(signal.reason, trace, current, [], 0);
+            }
+
+            let r: IteratorResult<T, TReturn>;
+            try {
+                r = throwing ? current.throw(ret) : current.next(ret);
+            } catch (error) {
+                // 尾调用不保留调用方，逻辑调用栈只包含当前帧
+                if (trace) attachLogicalStack(error, trace, current, [], 0);
+                settled = true;
+                if (hooks !== undefined) {
+                    hooks.onError?.(current, error, 1);
+                    hooks.onPop?.(current, 1);
+                }
+                throw error;
+            }
+            throwing = false;
+
+            if (r.done) {
+                settled = true;
+                if (hooks !== undefined) {
+                    hooks.onPop?.(current, 1);
+                    hooks.onComplete?.(r.value);
+                }
+                return r.value;
+            } else {
+                const value = r.value;
+                if (hooks !== undefined) {
+                    hooks.onYield?.(current, value, 1);
+                }
+
+                // 检查是否为生成器函数(延迟求值)
+                if (typeof value === 'function') {
+                    // 调用生成器函数,获取生成器对象
+                    let gen: unknown;
+                    try {
+                        gen = value();
+                    } catch (error) {
+                        // 运行中止:关闭仍停在 yield 处的当前帧
+                        throw abortSync(error, trace, current, [], 0);
+                    }
+
+                    // 验证是否为有效的生成器
+                    if (gen && typeof (gen as Generator).next === 'function') {
+                        // 直接切换,不压栈(尾递归优化)
+                        if (hooks !== undefined) tailCallHooks(hooks, current, gen as Generator);
+                        current = gen as Generator<T, TReturn>;
+                        ret = null;
+                    } else {
+                        throw abortSync(
+                            new TypeError('runTail: Expected a Generator function, but got an invalid generator'),
+                            trace, current, [], 0
+                        );
+                    }
+                } else if (isGenerator(value)) {
+                    // 已经是生成器对象
+                    if (hooks !== undefined) tailCallHooks(hooks, current, value);
+                    current = value as Generator<T, TReturn>;
+                    ret = null;
+                } else if (isCombinator(value)) {
+                    // 组合子需要在子调用完成后恢复当前帧,与尾调用语义不符
+                    throw abortSync(
+                        new TypeError(`runTail: ${value[INSTRUCTION]}() is not supported, use run() instead`),
+                        trace, current, [], 0
+                    );
+                } else if (isScopeInstruction(value)) {
+                    // withHandler / provide:以新的作用域尾调用子生成器
+                    if (!isGenerator(value.child)) {
+                        throw abortSync(asyncChildError(), trace, current, [], 0);
+                    }
+                    env = enterScope(value, env);
+                    if (hooks !== undefined) tailCallHooks(hooks, current, value.child);
+                    current = value.child as Generator<T, TReturn>;
+                    ret = null;
+                } else if (isEmit(value)) {
+                    // 尾递归运行器没有消费方
+                    ret = emitError();
+                    throwing = true;
+                } else if (isInstruction(value)) {
+                    // 指令送回其执行结果
+                    ret = performInstruction(value, options.signal, env);
+                } else if (isEffect(value)) {
+                    // 效果交给作用域中的处理函数
+                    const outcome = performEffect(value, env);
+                    if (outcome === undefined) {
+                        ret = value;
+                    } else if (outcome.kind === 'call') {
+                        // 处理函数返回的生成器需要在完成后恢复当前帧,与尾调用语义不符
+                        throw abortSync(effectCallError(value), trace, current, [], 0);
+                    } else if (outcome.kind === 'throw') {
+                        ret = outcome.error;
+                        throwing = true;
+                    } else if (isThenable(outcome.value)) {
+                        ret = new TypeError(
+                            `runTail: the handler for effect "${value.type}" returned a Promise, which requires an async run`
+                        );
+                        throwing = true;
+                    } else {
+                        ret = outcome.value;
+                    }
+                } else {
+                    // 普通值,保存作为下次 next 的参数
+                    ret = value;
+                }
+            }
+        }
+    } catch (error) {
+        if (settled) {
+            throw error;
+        }
+        // 运行中止：运行器中止时当前帧已经被关闭，其他异常（如钩子抛出的异常）需要在这里关闭它
+        const thrown = isRunAbort(error) ? error : abortSync(error, trace, current, [], 0);
+        if (hooks !== undefined) {
+            popClosedFrames(hooks, current, [], 0, 0);
+        }
+        throw thrown;
+    }
+}
+
+/**
+ * 内部异步尾递归运行器实现
+ */
+async function runTailAsyncImpl<T, TReturn>(
+    generator: AsyncGenerator<T, TReturn> | Generator<T, TReturn>,
+    options: RunOptions
+): Promise<TReturn> {
+    const trace = resolveTrace(options.trace);
+
+    // 运行预算：步数上限与截止时间
+    const maxSteps = options.maxSteps ?? Infinity;
+    const deadline = options.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs;
+    let steps = 0;
+    const signal = options.signal;
+    const hooks = options.hooks;
+
+    // 尾调用可以切换到同步生成器，同步帧不为每一步等待微任务
+    let current: AsyncGenerator<T, TReturn> | Generator<T, TReturn> = generator;
+    let ret: T | TReturn | unknown = null;
+
+    // 为 true 时 ret 是 Promise 拒绝的原因或效果处理函数抛出的异常，需要在当前帧的 yield 处抛出
+    let throwing = false;
+
+    // 作用域（效果处理函数与上下文），尾调用切换到的帧继承调用方的作用域
+    let env = rootScope(options);
+
+    // 当前帧已经返回或抛出异常（此后离开运行器的异常不再需要为它调用 onPop）
+    let settled = false;
+
+    if (hooks !== undefined) {
+        hooks.onPush?.(current, 1, undefined);
+    }
+
+    try {
+        while (true) {
+            // 每一步之前检查运行预算和取消信号
+            if (++steps > maxSteps || (deadline !== Infinity && Date.now() > deadline)) {
+                throw await abortAsync(
+                    createBudgetError(steps, maxSteps, options.timeoutMs),
+                    trace, current, [], 0
+                );
+            }
+            if (signal?.aborted) {
+                throw await abortAsync(signal.reason, trace, current, [], 0);
+            }
+
+            let r: IteratorResult<T, TReturn>;
+            try {
+                if (isSyncFrame(current)) {
+                    r = throwing ? current.throw(ret) : current.next(ret);
+                } else {
+                    r = await (throwing ? current.throw(ret) : current.next(ret));
+                }
+            } catch (error) {
+                // 尾调用不保留调用方，逻辑调用栈只包含当前帧
+                if (trace) attachLogicalStack(error, trace, current, [], 0);
+                settled = true;
+                if (hooks !== undefined) {
+                    hooks.onError?.(current, error, 1);
+                    hooks.onPop?.(current, 1);
+                }
+                throw error;
+            }
+            throwing = false;
+
+            if (r.done) {
+                settled = true;
+                if (hooks !== undefined) {
+                    hooks.onPop?.(current, 1);
+                    hooks.onComplete?.(r.value);
+                }
+                return r.value;
+            } else {
+                const value = r.value;
+                if (hooks !== undefined) {
+                    hooks.onYield?.(current, value, 1);
+                }
+
+                // 检查是否为异步生成器函数(延迟求值)
+                if (typeof value === 'function') {
+                    // 调用异步生成器函数,获取异步生成器对象
+                    let gen: unknown;
+                    try {
+                        gen = await value();
+                    } catch (error) {
+                        // 运行中止:关闭仍停在 yield 处的当前帧
+                        throw await abortAsync(error, trace, current, [], 0);
+                    }
+
+                    // 验证是否为有效的生成器(同步或异步)
+                    if (gen && typeof (gen as AsyncGenerator).next === 'function') {
+                        // 直接切换,不压栈(尾递归优化)
+                        if (hooks !== undefined) tailCallHooks(hooks, current, gen as RecursiveCall);
+                        current = gen as AsyncGenerator<T, TReturn> | Generator<T, TReturn>;
+                        ret = null;
+                    } else {
+                        throw await abortAsync(
+                            new TypeError('runTail: Expected an AsyncGenerator function, but got an invalid generator'),
+                            trace, current, [], 0
+                        );
+                    }
+                } else if (isGenerator(value) || isAsyncGenerator(value)) {
+                    // 已经是生成器对象(同步或异步)
+                    if (hooks !== undefined) tailCallHooks(hooks, current, value);
+                    current = value as AsyncGenerator<T, TReturn> | Generator<T, TReturn>;
+                    ret = null;
+                } else if (isCombinator(value)) {
+                    // 组合子需要在子调用完成后恢复当前帧,与尾调用语义不符
+                    throw await abortAsync(
+                        new TypeError(`runTail: ${value[INSTRUCTION]}() is not supported, use run() instead`),
+                        trace, current, [], 0
+                    );
+                } else if (options.awaitPromises && isThenable(value)) {
+                    // 等待 Promise:兑现的值送回当前帧,拒绝的原因在 yield 处抛出
+                    try {
+                        ret = await value;
+                    } catch (error) {
+                        ret = error;
+                        throwing = true;
+                    }
+                } else if (isScopeInstruction(value)) {
+                    // withHandler / provide:以新的作用域尾调用子生成器
+                    env = enterScope(value, env);
+                    if (hooks !== undefined) tailCallHooks(hooks, current, value.child);
+                    current = value.child as AsyncGenerator<T, TReturn> | Generator<T, TReturn>;
+                    ret = null;
+                } else if (isMemoWait(value)) {
+                    // 记忆化帧等待同一个键的计算结果
+                    try {
+                        ret = await value.pending;
+                    } catch (error) {
+                        ret = error;
+                        throwing = true;
+                    }
+                } else if (isEmit(value)) {
+                    // 尾递归运行器没有消费方
+                    ret = emitError();
+                    throwing = true;
+                } else if (isInstruction(value)) {
+                    // 指令送回其执行结果
+                    ret = performInstruction(value, options.signal, env);
+                } else if (isEffect(value)) {
+                    // 效果交给作用域中的处理函数,处理函数返回的 Promise 会被等待
+                    const outcome = performEffect(value, env);
+                    if (outcome === undefined) {
+                        ret = value;
+                    } else if (outcome.kind === 'call') {
+                        // 处理函数返回的生成器需要在完成后恢复当前帧,与尾调用语义不符
+                        throw await abortAsync(effectCallError(value), trace, current, [], 0);
+                    } else if (outcome.kind === 'throw') {
+                        ret = outcome.error;
+                        throwing = true;
+                    } else if (isThenable(outcome.value)) {
+                        try {
+                            ret = await outcome.value;
+                        } catch (error) {
+                            ret = error;
+                            throwing = true;
+                        }
+                    } else {
+                        ret = outcome.value;
+                    }
+                } else {
+                    // 普通值,保存作为下次 next 的参数
+                    ret = value;
+                }
+            }
+        }
+    } catch (error) {
+        if (settled) {
+            throw error;
+        }
+        // 运行中止：运行器中止时当前帧已经被关闭，其他异常（如钩子抛出的异常）需要在这里关闭它
+        const thrown = isRunAbort(error) ? error : await abortAsync(error, trace, current, [], 0);
+        if (hooks !== undefined) {
+            popClosedFrames(hooks, current, [], 0, 0);
+        }
+        throw thrown;
+    }
+}
+
+// ==================== 分片运行 ====================
+
+/** 未指定分片大小时每一片的默认时长（毫秒） */
+const DEFAULT_SLICE_MS = 10;
+
+/**
+ * 分片运行同步递归生成器，期间定期让出事件循环
+ *
+ * 与 run 使用同一套显式栈逻辑驱动同步生成器，
+ * 但每执行 sliceMs 毫秒或 sliceSteps 步就暂停一次，
+ * 通过 scheduler 让出事件循环后再继续，从而避免长时间的同步递归阻塞 I/O 和界面。
+ *
+ * run 的所有选项（maxDepth、maxSteps、timeoutMs、signal 等）同样适用，
+ * 其中 timeoutMs 按包含暂停在内的总时长计算。
+ *
+ * @typeParam T - 生成器产生的值的类型
+ * @typeParam TReturn - 最终返回值的类型
+ * @param generator - 同步生成器对象
+ * @param options - 运行选项
+ * @returns 解析为递归函数最终返回值的 Promise
+ *
+ * @example
+ * ```typescript
+ * function* count(node: TreeNode): Generator<unknown, number> {
+ *   let total = 1;
+ *   for (const child of node.children) total += yield count(child);
+ *   return total;
+ * }
+ *
+ * // 遍历 200 万个节点期间，事件循环每 10ms 就能处理一次其他任务
+ * const total = await runSliced(count(hugeTree), { sliceMs: 10 });
+ * ```
+ */
+export function runSliced<T, TReturn>(
+    generator: Generator<T, TReturn>,
+    options: SlicedRunOptions = {}
+): Promise<TReturn> {
+    const { sliceSteps = Infinity } = options;
+    const sliceMs = options.sliceMs ?? (options.sliceSteps === undefined ? DEFAULT_SLICE_MS : Infinity);
+    if (!(sliceSteps >= 1) || !(sliceMs >= 0)) {
+        return Promise.reject(new RangeError('runSliced: sliceSteps must be >= 1 and sliceMs must be >= 0'));
+    }
+
+    const machine = new SyncStackMachine(generator as Generator<unknown, TReturn>, options);
+    const scheduler = createSliceScheduler(options.scheduler);
+
+    return new Promise<TReturn>((resolve, reject) => {
+        const slice = (): void => {
+            try {
+                const pauseAtTime = sliceMs === Infinity ? Infinity : performance.now() + sliceMs;
+                if (machine.advance(machine.steps + sliceSteps, pauseAtTime)) {
+                    scheduler.dispose();
+                    resolve(machine.result as TReturn);
+                } else {
+                    scheduler.schedule(slice);
+                }
+            } catch (error) {
+                scheduler.dispose();
+                reject(error);
+            }
+        };
+        slice();
+    });
+}
+
+/**
+ * 根据 scheduler 选项创建分片调度器
+ *
+ * 返回的 dispose 用于释放调度器占用的资源（例如 MessageChannel 的端口，
+ * 未关闭时会阻止 Node.js 进程退出）。
+ */
+function createSliceScheduler(
+    scheduler: SlicedRunOptions['scheduler']
+): { schedule: SliceScheduler; dispose(): void } {
+    const noop = (): void => { };
+
+    if (typeof scheduler === 'function') {
+        return { schedule: scheduler, dispose: noop };
+    }
+    if (scheduler === 'idle' && typeof globalThis.requestIdleCallback === 'function') {
+        return { schedule: callback => { globalThis.requestIdleCallback(callback); }, dispose: noop };
+    }
+
+    // 未指定（或 requestIdleCallback 不可用）时按环境选择，指定的方式不可用时退回 setTimeout
+    const hasImmediate = typeof globalThis.setImmediate === 'function';
+    const hasMessageChannel = typeof globalThis.MessageChannel === 'function';
+    let kind = scheduler;
+    if (kind === undefined || kind === 'idle') {
+        kind = hasImmediate ? 'immediate' : 'message-channel';
+    }
+    if ((kind === 'immediate' && !hasImmediate) || (kind === 'message-channel' && !hasMessageChannel)) {
+        kind = 'timeout';
+    }
+
+    if (kind === 'immediate') {
+        return { schedule: callback => { setImmediate(callback); }, dispose: noop };
+    }
+    if (kind === 'timeout') {
+        return { schedule: callback => { setTimeout(callback, 0); }, dispose: noop };
+    }
+
+    // MessageChannel：同一个通道复用于整个运行，结束后关闭端口
+    const channel = new MessageChannel();
+    let pending: (() => void) | undefined;
+    channel.port1.onmessage = () => {
+        const callback = pending;
+        pending = undefined;
+        callback?.();
+    };
+    return {
+        schedule: callback => {
+            pending = callback;
+            channel.port2.postMessage(null);
+        },
+        dispose: () => {
+            channel.port1.close();
+        }
+    };
+}
+
+// ==================== 流式运行 ====================
+
+/**
+ * 以流的形式运行递归生成器，逐个产出各帧 `yield emit(value)` 的值
+ *
+ * 递归计算被展开为一个扁平的惰性序列：消费方每取一个值，运行器才继续执行到下一次 emit，
+ * 因此无需在每一层构建并拼接数组，也不必把所有结果同时保存在内存中。
+ * 根帧的返回值会被丢弃。
+ *
+ * 同步生成器返回 Iterable；异步生成器或 awaitPromises 模式返回 AsyncIterable。
+ * run 的所有选项同样适用。消费方提前结束迭代（break、return 或抛出异常）时，
+ * 所有存活的帧都会被关闭，它们的 finally 块得以执行。
+ *
+ * @typeParam T - emit 的值的类型
+ * @param generator - 生成器对象（同步或异步）
+ * @param options - 运行选项
+ * @returns 产出 emit 的值的迭代器
+ *
+ * @example
+ * ```typescript
+ * async function* walk(dir: string): AsyncGenerator<unknown, void> {
+ *   for (const entry of await readdir(dir, { withFileTypes: true })) {
+ *     const path = join(dir, entry.name);
+ *     if (entry.isDirectory()) yield walk(path);
+ *     else yield emit(path);
+ *   }
+ * }
+ *
+ * for await (const file of runStream<string>(walk(root))) {
+ *   console.log(file);
+ * }
+ * ```
+ */
+export function runStream<T = unknown>(
+    generator: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+    options: RunOptions & { awaitPromises: true }
+): AsyncIterableIterator<T>;
+export function runStream<T = unknown>(
+    generator: Generator<unknown, unknown>,
+    options?: RunOptions
+): IterableIterator<T>;
+export function runStream<T = unknown>(
+    generator: AsyncGenerator<unknown, unknown>,
+    options?: RunOptions
+): AsyncIterableIterator<T>;
+export function runStream<T = unknown>(
+    generator: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+    options?: RunOptions
+): IterableIterator<T> | AsyncIterableIterator<T>;
+export function runStream<T = unknown>(
+    generator: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+    options: RunOptions = {}
+): IterableIterator<T> | AsyncIterableIterator<T> {
+    if (isAsyncGenerator(generator) || options.awaitPromises) {
+        return streamAsync<T>(generator, options);
+    }
+    return streamSync<T>(generator as Generator<unknown, unknown>, options);
+}
+
+/**
+ * 同步流式运行：每次 emit 都暂停状态机，把值交给消费方
+ */
+function* streamSync<T>(generator: Generator<unknown, unknown>, options: RunOptions): Generator<T, void, undefined> {
+    const machine = new SyncStackMachine(generator, options, true);
+    try {
+        while (!machine.advance()) {
+            yield machine.emitted as T;
+        }
+    } finally {
+        // 消费方提前结束迭代时关闭仍然存活的帧
+        machine.close();
+    }
+}
+
+/** 流式运行中等待消费方取走的值 */
+interface Emission {
+    readonly value: unknown;
+    /** 让产出该值的帧继续执行 */
+    readonly resume: () => void;
+}
+
+/**
+ * 异步流式运行
+ *
+ * 运行器在每次 emit 处等待，消费方取走下一个值时才让对应的帧继续执行。
+ * all / race 等组合子的多个分支可能同时 emit，它们的值按产出顺序排队。
+ */
+async function* streamAsync<T>(
+    generator: Generator<unknown, unknown> | AsyncGenerator<unknown, unknown>,
+    options: RunOptions
+): AsyncGenerator<T, void, undefined> {
+    // 消费方提前结束迭代时通过该信号中止运行
+    const controller = new AbortController();
+    const unlink = linkSignal(options.signal, controller);
+    const stopped = new Error('runStream: the consumer stopped iterating');
+
+    const queue: Emission[] = [];
+    let wake: (() => void) | undefined;
+    const notify = (): void => {
+        const callback = wake;
+        wake = undefined;
+        callback?.();
+    };
+
+    const push = (value: unknown, signal: AbortSignal | undefined): Promise<void> => new Promise<void>(resolve => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        // 分支被中止时不再等待消费方，让运行器在下一步检查信号时中止该分支
+        const onAbort = (): void => {
+            const index = queue.indexOf(emission);
+            if (index !== -1) queue.splice(index, 1);
+            resolve();
+        };
+        const emission: Emission = {
+            value,
+            resume: () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(emission);
+        notify();
+    });
+
+    let finished = false;
+    const completion = runAsyncImpl(generator, { ...options, signal: controller.signal }, push).finally(() => {
+        finished = true;
+        notify();
+    });
+    // 异常在下面等待 completion 时抛出，这里避免未处理的拒绝
+    completion.catch(() => { });
+
+    try {
+        while (true) {
+            const emission = queue.shift();
+            if (emission) {
+                try {
+                    yield emission.value as T;
+                } finally {
+                    emission.resume();
+                }
+            } else if (finished) {
+                await completion;
+                return;
+            } else {
+                await new Promise<void>(resolve => { wake = resolve; });
+            }
+        }
+    } finally {
+        if (!finished) {
+            controller.abort(stopped);
+            try {
+                await completion;
+            } catch (error) {
+                if (error !== stopped) {
+                    throw error;
+                }
+            }
+        }
+        unlink();
+    }
+}
+
+// ==================== 单步调试 ====================
+
+/**
+ * 断点条件，每执行一步后调用，返回 true 时暂停
+ */
+export type BreakpointPredicate = (runner: DebugRunner) => boolean;
+
+/**
+ * 调试器暂停的原因
+ *
+ * - `'step'`：完成了请求的单步操作
+ * - `'breakpoint'`：命中了断点
+ * - `'done'`：运行已经结束
+ */
+export type PauseReason = 'step' | 'breakpoint' | 'done';
+
+/**
+ * 单步调试器，由 {@link createRunner} 创建
+ *
+ * @typeParam TReturn - 根帧返回值的类型
+ */
+export interface DebugRunner<TReturn = unknown> {
+    /** 执行一步：驱动当前帧到下一次 yield、return 或 throw */
+    step(): PauseReason;
+    /** 执行到当前帧的下一步，期间调用的子帧整体执行完毕 */
+    stepOver(): PauseReason;
+    /** 执行到当前帧返回或抛出异常，回到父帧 */
+    stepOut(): PauseReason;
+    /** 一直执行到命中断点或运行结束 */
+    continue(): PauseReason;
+    /**
+     * 添加断点
+     *
+     * 传入字符串时，压入同名的帧（名称规则同逻辑调用栈）时暂停；
+     * 传入函数时，每执行一步后调用，返回 true 时暂停。
+     *
+     * @returns 移除该断点的函数
+     */
+    addBreakpoint(breakpoint: string | BreakpointPredicate): () => void;
+    /** 提前结束运行：关闭所有存活的帧，执行它们的 finally 块 */
+    close(): void;
+    /** 存活的帧，从内到外排列，首项为当前帧；运行结束后为空数组 */
+    readonly frames: readonly LogicalFrame[];
+    /** 当前深度，根帧为 1；运行结束后为 0 */
+    readonly depth: number;
+    /** 最近一次 yield 的值 */
+    readonly lastYielded: unknown;
+    /** 已执行的步数 */
+    readonly steps: number;
+    /** 运行是否已经结束（正常返回、抛出异常或被 close） */
+    readonly done: boolean;
+    /** 根帧的返回值，运行正常结束前为 undefined */
+    readonly result: TReturn | undefined;
+}
+
+/**
+ * 创建单步调试器，逐步驱动同步递归生成器
+ *
+ * 与 run 使用同一套显式栈逻辑，但每次只在调用方要求时前进，
+ * 两次操作之间可以检查当前的帧栈、深度和最近一次 yield 的值，
+ * 适合用于教学演示或调试递归算法的 REPL 与开发者工具面板。
+ *
+ * 一步指驱动当前帧执行到下一次 yield、return 或 throw，与 maxSteps 的计数方式相同。
+ * run 的同步选项同样适用。帧抛出的异常未被任何帧捕获时，从当前操作中抛出。
+ * 帧的名称规则与逻辑调用栈相同，通过 {@link traced} 包装的生成器函数才能识别出函数名，
+ * 经包装函数创建的帧在 frames 中还带有参数。
+ *
+ * @typeParam TReturn - 根帧返回值的类型
+ * @param generator - 同步生成器对象
+ * @param options - 运行选项
+ * @returns 调试器，创建时尚未执行任何一步
+ *
+ * @example
+ * ```typescript
+ * const fib = traced(function* (n: number): Generator<unknown, number> {
+ *   if (n <= 2) return 1;
+ *   return (yield fib(n - 1)) + (yield fib(n - 2));
+ * }, 'fib');
+ *
+ * const runner = createRunner(fib(10));
+ * const remove = runner.addBreakpoint(r => r.depth === 5);
+ * runner.continue();   // 'breakpoint'
+ * runner.frames;       // [{ name: 'fib', args: [6] }, { name: 'fib', args: [7] }, ...]
+ * remove();
+ * runner.stepOut();    // 'step'：fib(6) 已返回，回到 fib(7)
+ * runner.continue();   // 'done'
+ * runner.result;       // 55
+ * ```
+ */
+export function createRunner<T, TReturn>(
+    generator: Generator<T, TReturn>,
+    options: Omit<RunOptions, 'awaitPromises' | 'journal'> = {}
+): DebugRunner<TReturn> {
+    const machine = new SyncStackMachine(generator as Generator<unknown, TReturn>, options);
+    const names = new Set<string>();
+    const predicates = new Set<BreakpointPredicate>();
+
+    const stepOnce = (): boolean => machine.advance(machine.steps + 1);
+
+    /** 执行一步后检查断点 */
+    const hitBreakpoint = (depthBefore: number): boolean => {
+        if (names.size > 0 && machine.depth > depthBefore
+            && names.has(frameName(machine.frames()[0]!))) {
+            return true;
+        }
+        for (const predicate of predicates) {
+            if (predicate(runner)) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    /** 逐步执行，直到 stop 返回 true、命中断点或运行结束 */
+    const stepUntil = (stop: () => boolean): PauseReason => {
+        if (machine.done) {
+            return 'done';
+        }
+        while (true) {
+            const depthBefore = machine.depth;
+            if (stepOnce()) {
+                return 'done';
+            }
+            if (hitBreakpoint(depthBefore)) {
+                return 'breakpoint';
+            }
+            if (stop()) {
+                return 'step';
+            }
+        }
+    };
+
+    const runner: DebugRunner<TReturn> = {
+        step() {
+            if (machine.done) {
+                return 'done';
+            }
+            return stepOnce() ? 'done' : 'step';
+        },
+        stepOver() {
+            const depth = machine.depth;
+            return stepUntil(() => machine.depth <= depth);
+        },
+        stepOut() {
+            const depth = machine.depth;
+            return stepUntil(() => machine.depth < depth);
+        },
+        continue() {
+            if (!machine.done && names.size === 0 && predicates.size === 0) {
+                // 没有断点时不必逐步检查，直接驱动到结束
+                machine.advance();
+                return 'done';
+            }
+            return stepUntil(() => false);
+        },
+        addBreakpoint(breakpoint) {
+            if (typeof breakpoint === 'string') {
+                names.add(breakpoint);
+                return () => { names.delete(breakpoint); };
+            }
+            predicates.add(breakpoint);
+            return () => { predicates.delete(breakpoint); };
+        },
+        close() {
+            machine.close();
+        },
+        get frames() {
+            return machine.done ? [] : machine.frames().map(frame => describeFrame(frame, true));
+        },
+        get depth() {
+            return machine.done ? 0 : machine.depth;
+        },
+        get lastYielded() {
+            return machine.yielded;
+        },
+        get steps() {
+            return machine.steps;
+        },
+        get done() {
+            return machine.done;
+        },
+        get result() {
+            return machine.result;
+        }
+    };
+    return runner;
+}
+
+// ==================== 递归函数 ====================
+
+/**
+ * yield 一个值之后运行器送回的结果类型
+ *
+ * - 生成器：递归调用的返回值
+ * - 指令和 defineEffect 创建的效果：其声明的结果类型
+ * - 其他带有 `type` 的对象：取决于处理函数，为 unknown
+ * - 其他值：原样送回
+ */
+export type YieldResult<Y> =
+    Y extends RecursiveCall ? CallResult<Y>
+    : Y extends { readonly __result?: infer R } ? ([R] extends [never] ? unknown : R)
+    : Y extends { readonly type: string } ? unknown
+    : Y;
+
+/**
+ * 发起类型化的递归调用
+ *
+ * 在递归生成器中用 `yield* call(x)` 代替 `yield x`：它只 yield 一次 x，
+ * 并把运行器送回的结果作为 `yield*` 表达式的值，类型由 x 推断，无需类型断言。
+ * x 可以是子生成器，也可以是组合子、withHandler、useContext 等指令或效果对象。
+ * 委托在当前帧内完成，不会额外占用栈帧。
+ *
+ * @param value - 要 yield 的子生成器、指令或效果
+ * @returns 用于 `yield*` 的生成器
+ *
+ * @example
+ * ```typescript
+ * function* fib(n: number): Generator<unknown, number> {
+ *   if (n <= 2) return 1;
+ *   const a = yield* call(fib(n - 1)); // number
+ *   const b = yield* call(fib(n - 2)); // number
+ *   return a + b;
+ * }
+ *
+ * async function* sizes(urls: string[]): AsyncGenerator<unknown, number[]> {
+ *   return yield* call(all(urls.map(fetchSize))); // number[]
+ * }
+ * ```
+ */
+export function* call<Y>(value: Y): Generator<Y, YieldResult<Y>, unknown> {
+    return (yield value) as YieldResult<Y>;
+}
+
+/** recursive 包装同步生成器函数得到的递归函数 */
+export interface RecursiveFunction<A extends unknown[], R> {
+    /** 用 run() 运行递归调用，直接返回结果 */
+    (...args: A): R;
+
+    /** 创建递归调用的生成器对象，用于 `yield f.gen(...)` */
+    gen(...args: A): Generator<unknown, R>;
+
+    /**
+     * 创建可被 `yield*` 委托的递归调用，结果类型为 R
+     *
+     * 它只 yield 一次子调用，因此不会额外占用栈帧。
+     */
+    call(...args: A): Generator<unknown, R, unknown>;
+}
+
+/** recursive 包装异步生成器函数得到的递归函数 */
+export interface AsyncRecursiveFunction<A extends unknown[], R> {
+    /** 用 run() 运行递归调用，返回 Promise */
+    (...args: A): Promise<R>;
+
+    /** 创建递归调用的异步生成器对象，用于 `yield f.gen(...)` */
+    gen(...args: A): AsyncGenerator<unknown, R>;
+
+    /**
+     * 创建可被 `yield*` 委托的递归调用，结果类型为 R
+     *
+     * 它只 yield 一次子调用，因此不会额外占用栈帧。
+     */
+    call(...args: A): Generator<unknown, R, unknown>;
+}
+
+/**
+ * 把递归生成器函数包装为普通函数
+ *
+ * 返回的函数直接调用时用 run() 运行整个递归（异步生成器函数返回 Promise），
+ * 在其他递归生成器内部则通过 `yield* f.call(...)` 或 `yield f.gen(...)` 发起递归调用。
+ * `yield*` 形式的结果类型由 TypeScript 推断，无需手写类型断言。
+ *
+ * 递归函数体引用自身时，需要为生成器函数标注返回类型，否则 TypeScript 无法推断。
+ * 注意具名生成器函数在函数体内的同名标识符指向它自己，而不是包装后的递归函数。
+ *
+ * @param fn - 递归生成器函数（同步或异步）
+ * @param options - 直接调用时传给 run() 的运行选项
+ * @returns 递归函数
+ *
+ * @example
+ * ```typescript
+ * const fib = recursive(function* (n: number): Generator<unknown, number> {
+ *   if (n <= 2) return 1;
+ *   return (yield* fib.call(n - 1)) + (yield* fib.call(n - 2));
+ * });
+ *
+ * fib(30); // 832040
+ * ```
+ */
+export function recursive<A extends unknown[], R>(
+    fn: (...args: A) => AsyncGenerator<unknown, R, unknown>,
+    options?: RunOptions
+): AsyncRecursiveFunction<A, R>;
+export function recursive<A extends unknown[], R>(
+    fn: (...args: A) => Generator<unknown, R, unknown>,
+    options?: RunOptions
+): RecursiveFunction<A, R>;
+export function recursive<A extends unknown[], R>(
+    fn: (...args: A) => Generator<unknown, R, unknown> | AsyncGenerator<unknown, R, unknown>,
+    options: RunOptions = {}
+): RecursiveFunction<A, R> | AsyncRecursiveFunction<A, R> {
+    if (typeof fn !== 'function') {
+        throw new TypeError('recursive: Expected a generator function');
+    }
+    const recursiveFn = function (this: unknown, ...args: A) {
+        return run(fn.apply(this, args) as Generator<unknown, R>, options);
+    };
+    Object.defineProperty(recursiveFn, 'name', { value: fn.name });
+    return Object.assign(recursiveFn, {
+        gen(...args: A) {
+            return fn(...args);
+        },
+        call(...args: A) {
+            return call(fn(...args));
+        }
+    }) as RecursiveFunction<A, R> | AsyncRecursiveFunction<A, R>;
+}
+
+// ==================== 折叠与展开 ====================
+
+/** fold 的遍历方式 */
+export interface FoldSpec<N, R> {
+    /** 返回节点的子节点，叶子节点可以返回 null 或 undefined */
+    children(node: N): Iterable<N> | null | undefined;
+
+    /** 用子节点的结果（按子节点顺序）计算节点的结果 */
+    combine(node: N, results: R[]): R;
+}
+
+/** foldAsync 的遍历方式，两个回调都可以返回 Promise */
+export interface AsyncFoldSpec<N, R> {
+    /** 返回节点的子节点，叶子节点可以返回 null 或 undefined */
+    children(node: N): Iterable<N> | null | undefined | PromiseLike<Iterable<N> | null | undefined>;
+
+    /** 用子节点的结果（按子节点顺序）计算节点的结果 */
+    combine(node: N, results: R[]): R | PromiseLike<R>;
+}
+
+/** unfold 展开种子得到的节点 */
+export interface Unfolded<S, T> {
+    /** 节点的值 */
+    value: T;
+    /** 子节点的种子，叶子节点可以省略 */
+    children?: Iterable<S> | null | undefined;
+}
+
+/** unfold 的展开方式 */
+export interface UnfoldSpec<S, T> {
+    /** 把种子展开为节点的值和子节点的种子 */
+    expand(seed: S): Unfolded<S, T>;
+}
+
+/** unfoldAsync 的展开方式，expand 可以返回 Promise */
+export interface AsyncUnfoldSpec<S, T> {
+    /** 把种子展开为节点的值和子节点的种子 */
+    expand(seed: S): Unfolded<S, T> | PromiseLike<Unfolded<S, T>>;
+}
+
+/** unfold 构建的树 */
+export interface UnfoldTree<T> {
+    value: T;
+    children: UnfoldTree<T>[];
+}
+
+/** fold / unfold 的运行选项 */
+export type FoldOptions = Omit<RunOptions, 'awaitPromises' | 'journal'>;
+
+/**
+ * fold 的递归帧
+ */
+function* foldFrame<N, R>(node: N, spec: FoldSpec<N, R>): Generator<unknown, R, unknown> {
+    const results: R[] = [];
+    const children = spec.children(node);
+    if (children) {
+        for (const child of children) {
+            results.push((yield foldFrame(child, spec)) as R);
+        }
+    }
+    return spec.combine(node, results);
+}
+
+/**
+ * foldAsync 的递归帧
+ *
+ * 回调的返回值包装为 Promise 后再 yield，由 awaitPromises 模式等待，
+ * 这样回调返回的值不会被当作递归调用或效果处理。
+ */
+function* foldFrameAsync<N, R>(node: N, spec: AsyncFoldSpec<N, R>): Generator<unknown, R, unknown> {
+    const results: R[] = [];
+    const children = (yield Promise.resolve(spec.children(node))) as Iterable<N> | null | undefined;
+    if (children) {
+        for (const child of children) {
+            results.push((yield foldFrameAsync(child, spec)) as R);
+        }
+    }
+    return (yield Promise.resolve(spec.combine(node, results))) as R;
+}
+
+/**
+ * unfold 的递归帧
+ */
+function* unfoldFrame<S, T>(seed: S, spec: UnfoldSpec<S, T>): Generator<unknown, UnfoldTree<T>, unknown> {
+    const { value, children: seeds } = spec.expand(seed);
+    const children: UnfoldTree<T>[] = [];
+    if (seeds) {
+        for (const child of seeds) {
+            children.push((yield unfoldFrame(child, spec)) as UnfoldTree<T>);
+        }
+    }
+    return { value, children };
+}
+
+/**
+ * unfoldAsync 的递归帧
+ */
+function* unfoldFrameAsync<S, T>(seed: S, spec: AsyncUnfoldSpec<S, T>): Generator<unknown, UnfoldTree<T>, unknown> {
+    const { value, children: seeds } = (yield Promise.resolve(spec.expand(seed))) as Unfolded<S, T>;
+    const children: UnfoldTree<T>[] = [];
+    if (seeds) {
+        for (const child of seeds) {
+            children.push((yield unfoldFrameAsync(child, spec)) as UnfoldTree<T>);
+        }
+    }
+    return { value, children };
+}
+
+/**
+ * 自底向上归约递归结构（树、JSON、AST、文件系统等）
+ *
+ * 无需编写生成器：对每个节点先归约其所有子节点，再用 combine 合并子节点的结果。
+ * 内部由 run 的显式栈驱动，任意深度的结构都不会栈溢出，
+ * run 的 maxDepth、maxSteps、timeoutMs、signal 等选项同样适用。
+ *
+ * @param node - 根节点
+ * @param spec - 子节点的获取方式与结果的合并方式
+ * @param options - 运行选项
+ * @returns 根节点的结果
+ *
+ * @example
+ * ```typescript
+ * // 统计 JSON 中的叶子数量
+ * const leaves = fold(json, {
+ *   children: (v) => (typeof v === 'object' && v !== null ? Object.values(v) : null),
+ *   combine: (v, counts) => (counts.length === 0 ? 1 : counts.reduce((a, b) => a + b, 0))
+ * });
+ * ```
+ */
+export function fold<N, R>(node: N, spec: FoldSpec<N, R>, options?: FoldOptions): R {
+    return run(foldFrame(node, spec), options);
+}
+
+/**
+ * 异步版本的 {@link fold}，children 和 combine 可以返回 Promise
+ *
+ * 子节点按顺序依次归约。
+ *
+ * @param node - 根节点
+ * @param spec - 子节点的获取方式与结果的合并方式
+ * @param options - 运行选项
+ * @returns 解析为根节点结果的 Promise
+ *
+ * @example
+ * ```typescript
+ * // 统计目录的总大小
+ * const size = await foldAsync('/data', {
+ *   children: async (path) => ((await stat(path)).isDirectory() ? (await readdir(path)).map(n => join(path, n)) : null),
+ *   combine: async (path, sizes) => (sizes.length ? sizes.reduce((a, b) => a + b, 0) : (await stat(path)).size)
+ * });
+ * ```
+ */
+export function foldAsync<N, R>(node: N, spec: AsyncFoldSpec<N, R>, options?: FoldOptions): Promise<R> {
+    return run(foldFrameAsync(node, spec), { ...options, awaitPromises: true });
+}
+
+/**
+ * 从种子自顶向下构建树
+ *
+ * expand 把每个种子展开为节点的值和子节点的种子，子节点的种子继续展开，
+ * 结果为 `{ value, children }` 组成的树。与 {@link fold} 一样由显式栈驱动，适用相同的运行选项。
+ *
+ * @param seed - 根种子
+ * @param spec - 种子的展开方式
+ * @param options - 运行选项
+ * @returns 构建的树
+ *
+ * @example
+ * ```typescript
+ * // 深度为 n 的二叉树
+ * const tree = unfold(3, {
+ *   expand: (depth) => ({ value: depth, children: depth > 0 ? [depth - 1, depth - 1] : null })
+ * });
+ * ```
+ */
+export function unfold<S, T>(seed: S, spec: UnfoldSpec<S, T>, options?: FoldOptions): UnfoldTree<T> {
+    return run(unfoldFrame(seed, spec), options);
+}
+
+/**
+ * 异步版本的 {@link unfold}，expand 可以返回 Promise
+ *
+ * 子节点按顺序依次展开。
+ *
+ * @param seed - 根种子
+ * @param spec - 种子的展开方式
+ * @param options - 运行选项
+ * @returns 解析为构建的树的 Promise
+ */
+export function unfoldAsync<S, T>(seed: S, spec: AsyncUnfoldSpec<S, T>, options?: FoldOptions): Promise<UnfoldTree<T>> {
+    return run(unfoldFrameAsync(seed, spec), { ...options, awaitPromises: true });
+}
+
+// ==================== 可恢复的帧 ====================
+
+/**
+ * 可恢复帧的一步：yield 一个值并等待结果，或者返回
+ *
+ * - `{ state, yield }`：保存新的状态，yield 一个值（子帧、Promise、指令等），
+ *   它的结果会作为下一步的 input 送回
+ * - `{ return }`：帧执行完毕
+ */
+export type FrameStep<S, R> =
+    | { readonly state: S; readonly yield: unknown }
+    | { readonly return: R };
+
+/**
+ * 可恢复帧的状态机
+ *
+ * @param state - 帧的当前状态，必须可以被 JSON 序列化
+ * @param input - 上一次 yield 的结果；第一步为 undefined
+ */
+export type FrameStepFunction<S, R> = (state: S, input: unknown) => FrameStep<S, R>;
+
+/** defineFrame 返回的帧工厂，用初始状态创建可恢复的帧 */
+export interface FrameFactory<S, R> {
+    (state: S): Generator<unknown, R, unknown>;
+    /** 注册的帧名 */
+    readonly frameName: string;
+}
+
+/**
+ * 可恢复计算的 JSON 快照
+ */
+export interface Snapshot {
+    /** 快照格式的版本 */
+    readonly version: 1;
+    /** 调用栈，从根帧到当前帧 */
+    readonly frames: readonly { readonly name: string; readonly state: unknown }[];
+    /** 恢复时送给当前帧下一步的 input */
+    readonly input: unknown;
+}
+
+/** checkpoint / resume 的快照选项 */
+export interface CheckpointOptions {
+    /**
+     * 生成快照时调用
+     *
+     * 快照直接引用各帧的状态对象，需要在回调中同步序列化（例如 `JSON.stringify`）。
+     * 回调抛出的异常会中止运行。
+     */
+    onSnapshot(snapshot: Snapshot): void;
+
+    /** 每执行多少步生成一次快照，默认为 1（每一步之前都生成） */
+    interval?: number;
+}
+
+/** 已注册的帧定义 */
+interface FrameDefinition {
+    readonly name: string;
+    readonly step: FrameStepFunction<unknown, unknown>;
+}
+
+/** 运行中的可恢复帧 */
+interface FrameRecord {
+    readonly definition: FrameDefinition;
+    state: unknown;
+    /** 调用方帧，根帧为 undefined */
+    parent: FrameRecord | undefined;
+    /** 从快照恢复时，帧在第一步之前先等待的子帧 */
+    child: Generator<unknown, unknown> | undefined;
+    /** 从快照恢复时，帧第一步的 input */
+    input: unknown;
+    /** 快照设置，子帧继承调用方的设置 */
+    checkpoint: CheckpointState | undefined;
+}
+
+/** 一次运行的快照设置与计数 */
+interface CheckpointState {
+    readonly onSnapshot: (snapshot: Snapshot) => void;
+    readonly interval: number;
+    steps: number;
+}
+
+/** 帧名到帧定义的注册表 */
+const frameDefinitions = new Map<string, FrameDefinition>();
+
+/** 可恢复帧的生成器到运行状态的映射 */
+const frameRecords = new WeakMap<object, FrameRecord>();
+
+/**
+ * 定义并注册一个可恢复的帧
+ *
+ * 普通生成器的执行位置无法序列化。可恢复的帧改为显式的状态机：
+ * 每一步由 `step(state, input)` 返回新的状态和要 yield 的值，或者返回结果。
+ * 状态是普通的 JSON 数据，因此整个调用栈都可以保存为快照（见 {@link checkpoint}），
+ * 之后用 {@link resume} 在另一个进程中从快照继续运行。
+ *
+ * 递归的帧在 step 中引用自身，需要为帧工厂显式标注 {@link FrameFactory} 类型，
+ * 否则 TypeScript 无法推断它的类型；此时也需要写出 defineFrame 的类型参数。
+ *
+ * 帧工厂返回的是普通的生成器，可以直接交给 run（包括 awaitPromises 模式）或被其他帧 yield。
+ * step 可以 yield 子帧、Promise、指令和效果；组合子、scope 指令和普通生成器的状态无法保存，
+ * yield 它们会抛出 TypeError。子帧抛出的异常不会送回 step，而是继续向上传播。
+ *
+ * @param name - 帧名，在快照中标识帧的类型，必须唯一
+ * @param step - 帧的状态机
+ * @returns 帧工厂
+ *
+ * @example
+ * ```typescript
+ * type SumState = { n: number; waiting?: boolean };
+ *
+ * const sum: FrameFactory<SumState, number> = defineFrame<SumState, number>('sum', (state, input) => {
+ *   if (state.n === 0) return { return: 0 };
+ *   if (!state.waiting) return { state: { ...state, waiting: true }, yield: sum({ n: state.n - 1 }) };
+ *   return { return: state.n + (input as number) };
+ * });
+ *
+ * run(sum({ n: 100000 })); // 5000050000
+ * ```
+ */
+export function defineFrame<S, R = unknown>(name: string, step: FrameStepFunction<S, R>): FrameFactory<S, R> {
+    if (frameDefinitions.has(name)) {
+        throw new TypeError(`defineFrame: a frame named "${name}" is already defined`);
+    }
+    const definition: FrameDefinition = { name, step: step as FrameStepFunction<unknown, unknown> };
+    frameDefinitions.set(name, definition);
+
+    const create = (state: S): Generator<unknown, R, unknown> =>
+        createFrame(definition, state, undefined, undefined) as Generator<unknown, R, unknown>;
+    return Object.assign(create, { frameName: name });
+}
+
+/**
+ * 创建可恢复帧的生成器并登记其运行状态
+ */
+function createFrame(
+    definition: FrameDefinition,
+    state: unknown,
+    child: Generator<unknown, unknown> | undefined,
+    input: unknown
+): Generator<unknown, unknown> {
+    const record: FrameRecord = { definition, state, parent: undefined, child, input, checkpoint: undefined };
+    const frame = resumableFrame(record);
+    frameRecords.set(frame, record);
+    return frame;
+}
+
+/**
+ * 可恢复帧的生成器：反复调用 step，把 yield 的值交给运行器
+ */
+function* resumableFrame(record: FrameRecord): Generator<unknown, unknown, unknown> {
+    let input = record.input;
+    if (record.child) {
+        // 从快照恢复：先完成快照中正在运行的子帧
+        const child = record.child;
+        record.child = undefined;
+        linkFrame(child, record);
+        input = yield child;
+    }
+
+    while (true) {
+        if (record.checkpoint) {
+            takeSnapshot(record, input);
+        }
+
+        const result = record.definition.step(record.state, input);
+        if ('return' in result) {
+            return result.return;
+        }
+        record.state = result.state;
+
+        const value = result.yield;
+        if (isGenerator(value) || isAsyncGenerator(value)) {
+            if (!frameRecords.has(value)) {
+                throw new TypeError(
+                    `RecuRun: frame "${record.definition.name}" yielded a generator that is not a resumable frame`
+                );
+            }
+            linkFrame(value, record);
+        } else if (isCombinator(value) || isScopeInstruction(value)) {
+            throw new TypeError(
+                `RecuRun: frame "${record.definition.name}" yielded ${value[INSTRUCTION]}(), which cannot be resumed`
+            );
+        }
+        input = yield value;
+    }
+}
+
+/**
+ * 把子帧挂到调用方帧下，并继承调用方的快照设置
+ */
+function linkFrame(child: object, parent: FrameRecord): void {
+    const record = frameRecords.get(child)!;
+    record.parent = parent;
+    record.checkpoint ??= parent.checkpoint;
+}
+
+/**
+ * 在帧的下一步之前按间隔生成快照
+ */
+function takeSnapshot(record: FrameRecord, input: unknown): void {
+    const checkpoint = record.checkpoint!;
+    if (++checkpoint.steps % checkpoint.interval !== 0) {
+        return;
+    }
+    const frames: { name: string; state: unknown }[] = [];
+    for (let frame: FrameRecord | undefined = record; frame; frame = frame.parent) {
+        frames.push({ name: frame.definition.name, state: frame.state });
+    }
+    checkpoint.onSnapshot({ version: 1, frames: frames.reverse(), input });
+}
+
+/**
+ * 创建快照设置
+ */
+function createCheckpoint(options: CheckpointOptions): CheckpointState {
+    const interval = options.interval ?? 1;
+    if (!(interval >= 1)) {
+        throw new RangeError('checkpoint: interval must be >= 1');
+    }
+    return { onSnapshot: options.onSnapshot, interval, steps: 0 };
+}
+
+/**
+ * 为可恢复的帧开启快照
+ *
+ * 运行期间，每隔 interval 步（任意可恢复帧的一步）就把从该帧到当前帧的调用栈、
+ * 各帧的状态以及当前帧下一步的 input 交给 onSnapshot。
+ * 快照中的 input 与状态一样需要可以被 JSON 序列化。
+ *
+ * 快照生成于两步之间：当前帧 yield 的 Promise 已经兑现，但下一步还没有执行。
+ * 从快照恢复时，最后一步之后发生的操作会重新执行。
+ *
+ * @param frame - 由 {@link defineFrame} 的帧工厂创建的根帧
+ * @param options - 快照选项
+ * @returns 传入的帧
+ *
+ * @example
+ * ```typescript
+ * const result = await run(
+ *   checkpoint(crawl({ url: root }), {
+ *     onSnapshot: (snapshot) => writeFileSync('crawl.json', JSON.stringify(snapshot)),
+ *     interval: 100
+ *   }),
+ *   { awaitPromises: true }
+ * );
+ * ```
+ */
+export function checkpoint<G extends Generator<unknown, unknown, unknown>>(frame: G, options: CheckpointOptions): G {
+    const record = frameRecords.get(frame);
+    if (!record) {
+        throw new TypeError('checkpoint: expected a frame created by defineFrame()');
+    }
+    record.checkpoint = createCheckpoint(options);
+    return frame;
+}
+
+/**
+ * 从快照恢复可恢复的计算
+ *
+ * 按快照重建调用栈，返回根帧的生成器；像普通生成器一样交给 run 运行即可从快照处继续。
+ * 快照中的帧必须已经用 {@link defineFrame} 注册（通常是重新加载定义它们的模块）。
+ *
+ * @typeParam R - 根帧的返回值类型
+ * @param snapshot - {@link checkpoint} 生成的快照（可以是 `JSON.parse` 的结果）
+ * @param options - 继续生成快照的选项
+ * @returns 根帧的生成器
+ *
+ * @example
+ * ```typescript
+ * const snapshot = JSON.parse(readFileSync('crawl.json', 'utf8'));
+ * const result = await run(resume(snapshot, { onSnapshot: save }), { awaitPromises: true });
+ * ```
+ */
+export function resume<R = unknown>(snapshot: Snapshot, options?: CheckpointOptions): Generator<unknown, R, unknown> {
+    if (typeof snapshot !== 'object' || snapshot === null || snapshot.version !== 1
+        || !Array.isArray(snapshot.frames) || snapshot.frames.length === 0) {
+        throw new TypeError('resume: invalid snapshot');
+    }
+    const definitions = snapshot.frames.map(({ name }) => {
+        const definition = frameDefinitions.get(name);
+        if (!definition) {
+            throw new TypeError(`resume: unknown frame "${name}"`);
+        }
+        return definition;
+    });
+
+    // 从当前帧向根帧重建：每一帧先等待它的子帧，当前帧以快照中的 input 开始
+    let frame: Generator<unknown, unknown> | undefined;
+    for (let i = definitions.length - 1; i >= 0; i--) {
+        frame = createFrame(definitions[i]!, snapshot.frames[i]!.state, frame, frame ? undefined : snapshot.input);
+    }
+    if (options) {
+        frameRecords.get(frame!)!.checkpoint = createCheckpoint(options);
+    }
+    return frame as Generator<unknown, R, unknown>;
+}
+
+// ==================== 运行日志与重放 ====================
+
+/** 所有 call 日志项共享同一个对象 */
+const CALL_ENTRY: JournalEntry = { type: 'call' };
+
+/** 重放时可以按名称重建的内置异常类型 */
+const ERROR_TYPES: Readonly<Record<string, ErrorConstructor>> = {
+    Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError
+};
+
+/**
+ * 为送入帧的异常创建日志项
+ *
+ * Error 转换为 {@link SerializedError}，这样日志经过 JSON 序列化后仍然保留异常的信息；
+ * 其他值按原样保存。
+ */
+function throwEntry(error: unknown): JournalEntry {
+    if (!(error instanceof Error)) {
+        return { type: 'throw', error };
+    }
+    const serialized: SerializedError = error.stack === undefined
+        ? { name: error.name, message: error.message, props: { ...error } }
+        : { name: error.name, message: error.message, stack: error.stack, props: { ...error } };
+    return { type: 'throw', error: serialized, serialized: true };
+}
+
+/**
+ * 重放时从日志中重建异常
+ */
+function reviveError(serialized: SerializedError): Error {
+    const ErrorType = Object.hasOwn(ERROR_TYPES, serialized.name) ? ERROR_TYPES[serialized.name]! : Error;
+    const error = new ErrorType(serialized.message);
+    if (error.name !== serialized.name) {
+        Object.defineProperty(error, 'name', { value: serialized.name, writable: true, configurable: true });
+    }
+    if (serialized.stack !== undefined) {
+        Object.defineProperty(error, 'stack', { value: serialized.stack, writable: true, configurable: true });
+    }
+    return Object.assign(error, serialized.props);
+}
+
+/**
+ * 重放时根据 yield 的值重建记录时压入的子帧
+ *
+ * @returns 子帧及其作用域；该值在记录时不可能压入子帧时返回 undefined
+ */
+function replayCall(value: unknown, env: Scope | undefined): { child: RecursiveCall; scope: Scope | undefined } | undefined {
+    if (isGenerator(value) || isAsyncGenerator(value)) {
+        return { child: value, scope: undefined };
+    }
+    if (isScopeInstruction(value)) {
+        return { child: value.child, scope: enterScope(value, env) };
+    }
+    if (isEffect(value)) {
+        // 效果处理函数返回生成器的调用需要重新执行处理函数才能得到子帧
+        const outcome = performEffect(value, env);
+        if (outcome?.kind === 'call') {
+            return { child: outcome.child, scope: outcome.scope };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 按运行日志重放一次运行
+ *
+ * 用 factory 重新创建根生成器，按日志重新驱动整棵生成器树：
+ * 子帧照常压栈执行，但效果处理函数和指令不会被执行、yield 的 Promise 不会被等待，
+ * 送入各帧的值全部来自日志。因此只要所有 I/O 都通过效果（{@link defineEffect} 与 handlers）进行，
+ * 就可以在本地离线重现生产环境中的失败，并在帧中设置断点调试。
+ *
+ * 效果是重放时唯一会被跳过的 I/O 通道：帧内直接发起的 I/O 在重放时仍会执行。
+ * yield 一个 Promise 也是如此——产生它的表达式在运行器看到它之前已经发出了请求，
+ * 而异步生成器中的 `yield promise` 还会在生成器内部被等待。
+ *
+ * 生成器树的执行必须是确定的；偏离日志时抛出 {@link JournalMismatchError}。
+ *
+ * @typeParam T - 生成器产生的值的类型
+ * @typeParam TReturn - 最终返回值的类型
+ * @param factory - 创建根生成器的函数
+ * @param journal - `run(generator, { journal })` 记录的运行日志
+ * @param options - 运行选项
+ * @returns 解析为重放结果的 Promise；记录时运行失败的，重放时以同样的异常拒绝
+ *
+ * @example
+ * ```typescript
+ * const journal: JournalEntry[] = [];
+ * try {
+ *   await run(crawl(root), { journal, handlers });
+ * } finally {
+ *   writeFileSync('journal.json', JSON.stringify(journal));
+ * }
+ *
+ * // 在本地重现，不访问网络
+ * await replay(() => crawl(root), JSON.parse(readFileSync('journal.json', 'utf8')));
+ * ```
+ */
+export function replay<T, TReturn>(
+    factory: () => Generator<T, TReturn> | AsyncGenerator<T, TReturn>,
+    journal: readonly JournalEntry[],
+    options: Omit<RunOptions, 'journal'> = {}
+): Promise<TReturn> {
+    let generator: Generator<T, TReturn> | AsyncGenerator<T, TReturn>;
+    try {
+        generator = factory();
+    } catch (error) {
+        return Promise.reject(error);
     }
+    return runAsyncImpl(generator, { ...options, journal: journal as JournalEntry[] }, undefined, true);
 }
 
 // ==================== 默认导出 ====================
@@ -363,6 +4208,37 @@ async function runTailAsyncImpl<T, TReturn>(
 export default {
     run,
     runTail,
+    runSliced,
+    runStream,
+    createRunner,
     isGenerator,
-    isAsyncGenerator
+    isAsyncGenerator,
+    traced,
+    frameName,
+    getSignal,
+    emit,
+    all,
+    race,
+    allSettled,
+    pool,
+    memo,
+    recursive,
+    call,
+    fold,
+    foldAsync,
+    unfold,
+    unfoldAsync,
+    defineFrame,
+    checkpoint,
+    resume,
+    replay,
+    defineEffect,
+    withHandler,
+    provide,
+    useContext,
+    FrameCleanupError,
+    RecursionLimitError,
+    StepLimitError,
+    TimeoutError,
+    JournalMismatchError
 };
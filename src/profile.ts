@@ -0,0 +1,430 @@
+/**
+ * RecuRun 性能分析
+ *
+ * 记录每个逻辑递归帧的压栈与弹出时间，按生成器函数名和调用路径汇总成调用树，
+ * 并导出为 Chrome `.cpuprofile` 格式和折叠栈文本（flamegraph.pl、speedscope 可以直接读取）。
+ * 原生 CPU 性能分析中整个递归只是运行器的一个热点帧，这里看到的则是递归函数之间的调用关系。
+ *
+ * @packageDocumentation
+ */
+
+import { run, frameName, isAsyncGenerator } from './index.js';
+import type { RunHooks, RunOptions } from './index.js';
+
+// ==================== 类型定义 ====================
+
+/** profile 的运行选项，设置的 hooks 照常调用 */
+export type ProfileOptions = Omit<RunOptions, 'journal'>;
+
+/**
+ * 调用树中的一个节点：经过同一条调用路径进入的同名帧的汇总
+ */
+export interface ProfileNode {
+    /** 生成器函数名（规则同 {@link frameName}），调用树的根节点为 `(root)` */
+    readonly name: string;
+    /** 经过该调用路径进入的帧数 */
+    readonly calls: number;
+    /** 这些帧从压栈到弹出的总耗时（毫秒），包含子调用 */
+    readonly totalTime: number;
+    /** 扣除子调用之后的耗时（毫秒） */
+    readonly selfTime: number;
+    /** 子调用，按首次调用的顺序排列 */
+    readonly children: readonly ProfileNode[];
+}
+
+/**
+ * 按生成器函数名汇总的统计
+ */
+export interface FunctionStats {
+    /** 生成器函数名 */
+    readonly name: string;
+    /** 创建的帧数 */
+    readonly calls: number;
+    /** 总耗时（毫秒），递归调用只计算最外层的帧，不重复计算 */
+    readonly totalTime: number;
+    /** 扣除子调用之后的耗时（毫秒） */
+    readonly selfTime: number;
+}
+
+/**
+ * 一次运行的性能分析结果
+ */
+export interface Profile {
+    /** 调用树的根节点，其子节点为运行的根帧；自身耗时为帧之外（运行器本身）的耗时 */
+    readonly root: ProfileNode;
+    /** 按函数名汇总的统计，按自身耗时从高到低排列 */
+    readonly functions: readonly FunctionStats[];
+    /** 开始时间（`performance.now()`，毫秒） */
+    readonly startTime: number;
+    /** 结束时间（`performance.now()`，毫秒） */
+    readonly endTime: number;
+}
+
+/**
+ * profile 的返回值
+ *
+ * @typeParam R - 根帧返回值的类型
+ */
+export interface ProfileResult<R> {
+    /** 根帧的返回值 */
+    readonly result: R;
+    /** 性能分析结果 */
+    readonly profile: Profile;
+}
+
+/** `.cpuprofile` 中的调用帧 */
+export interface CpuProfileCallFrame {
+    functionName: string;
+    scriptId: string;
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+}
+
+/** `.cpuprofile` 中的节点 */
+export interface CpuProfileNode {
+    id: number;
+    callFrame: CpuProfileCallFrame;
+    hitCount: number;
+    children?: number[];
+}
+
+/**
+ * Chrome DevTools 的 `.cpuprofile` 格式（时间单位为微秒）
+ */
+export interface CpuProfile {
+    nodes: CpuProfileNode[];
+    startTime: number;
+    endTime: number;
+    samples: number[];
+    timeDeltas: number[];
+}
+
+/** 记录过程中可变的调用树节点 */
+interface NodeBuilder {
+    readonly name: string;
+    calls: number;
+    totalTime: number;
+    selfTime: number;
+    readonly children: NodeBuilder[];
+    /** 按函数名索引的子节点 */
+    readonly index: Map<string, NodeBuilder>;
+}
+
+/** 记录过程中可变的函数统计 */
+interface StatsBuilder {
+    readonly name: string;
+    calls: number;
+    totalTime: number;
+    selfTime: number;
+}
+
+/** 存活的帧：所在的调用树节点与压栈时间 */
+interface LiveFrame {
+    readonly node: NodeBuilder;
+    readonly start: number;
+}
+
+// ==================== 记录 ====================
+
+/**
+ * 创建调用树节点
+ */
+function createNode(name: string): NodeBuilder {
+    return { name, calls: 0, totalTime: 0, selfTime: 0, children: [], index: new Map() };
+}
+
+/**
+ * 创建记录器：通过 onPush / onPop 钩子记录每个帧，finish 时汇总
+ *
+ * 帧按 onPush 传入的 parent 挂到调用方所在的节点下，
+ * 因此异步运行中并发执行的分支也能归入正确的调用路径。
+ */
+function createRecorder(userHooks: RunHooks | undefined): { hooks: RunHooks; finish(): Profile } {
+    const startTime = performance.now();
+    const root = createNode('(root)');
+    const live = new Map<object, LiveFrame>();
+
+    const hooks: RunHooks = {
+        ...userHooks,
+        onPush: (frame, depth, parent) => {
+            const parentNode = (parent && live.get(parent)?.node) ?? root;
+            const name = frameName(frame);
+            let node = parentNode.index.get(name);
+            if (node === undefined) {
+                node = createNode(name);
+                parentNode.index.set(name, node);
+                parentNode.children.push(node);
+            }
+            node.calls++;
+            live.set(frame, { node, start: performance.now() });
+            userHooks?.onPush?.(frame, depth, parent);
+        },
+        onPop: (frame, depth) => {
+            userHooks?.onPop?.(frame, depth);
+            const entry = live.get(frame);
+            if (entry !== undefined) {
+                live.delete(frame);
+                entry.node.totalTime += performance.now() - entry.start;
+            }
+        }
+    };
+
+    const finish = (): Profile => {
+        const endTime = performance.now();
+        root.calls = 1;
+        root.totalTime = endTime - startTime;
+        root.selfTime = Math.max(0, root.totalTime - childrenTime(root));
+
+        const stats = new Map<string, StatsBuilder>();
+        for (const child of root.children) {
+            run(summarize(child, new Map(), stats));
+        }
+        const functions = [...stats.values()].sort((a, b) => b.selfTime - a.selfTime);
+        return { root: run(freeze(root)), functions, startTime, endTime };
+    };
+
+    return { hooks, finish };
+}
+
+/**
+ * 子节点的总耗时之和
+ */
+function childrenTime(node: NodeBuilder): number {
+    let time = 0;
+    for (const child of node.children) {
+        time += child.totalTime;
+    }
+    return time;
+}
+
+/**
+ * 计算各节点的自身耗时，并按函数名汇总
+ *
+ * @param node - 当前节点
+ * @param active - 当前调用路径上各函数名出现的次数，用于避免重复计算递归调用的总耗时
+ * @param stats - 按函数名汇总的统计
+ */
+function* summarize(
+    node: NodeBuilder,
+    active: Map<string, number>,
+    stats: Map<string, StatsBuilder>
+): Generator<unknown, void> {
+    // 异步运行中并发的子调用总耗时之和可能超过父帧
+    node.selfTime = Math.max(0, node.totalTime - childrenTime(node));
+
+    let entry = stats.get(node.name);
+    if (entry === undefined) {
+        entry = { name: node.name, calls: 0, totalTime: 0, selfTime: 0 };
+        stats.set(node.name, entry);
+    }
+    entry.calls += node.calls;
+    entry.selfTime += node.selfTime;
+    const count = active.get(node.name) ?? 0;
+    if (count === 0) {
+        entry.totalTime += node.totalTime;
+    }
+
+    active.set(node.name, count + 1);
+    for (const child of node.children) {
+        yield summarize(child, active, stats);
+    }
+    if (count === 0) {
+        active.delete(node.name);
+    } else {
+        active.set(node.name, count);
+    }
+}
+
+/**
+ * 把记录用的节点转换为对外的 ProfileNode，去掉内部索引
+ */
+function* freeze(node: NodeBuilder): Generator<unknown, ProfileNode> {
+    const children: ProfileNode[] = [];
+    for (const child of node.children) {
+        children.push(yield freeze(child));
+    }
+    return {
+        name: node.name,
+        calls: node.calls,
+        totalTime: node.totalTime,
+        selfTime: node.selfTime,
+        children
+    };
+}
+
+// ==================== 性能分析 ====================
+
+/**
+ * 运行递归生成器并记录每个逻辑帧的耗时
+ *
+ * 帧的耗时为从压栈到弹出之间的时间（`performance.now()`），包含子调用；
+ * 帧按调用路径和生成器函数名（通过 traced 包装才能识别，规则同 frameName）汇总成调用树。
+ * 同步生成器直接返回结果；异步生成器或 awaitPromises 模式返回 Promise，
+ * 此时耗时为墙钟时间，包含等待 I/O 的时间。
+ *
+ * 记录本身有开销（每个帧两次计时和一次 Map 操作），适合比较各函数的相对耗时。
+ *
+ * @typeParam TReturn - 根帧返回值的类型
+ * @param generator - 生成器对象（同步或异步）
+ * @param options - 运行选项
+ * @returns 根帧的返回值和性能分析结果（同步直接返回，异步返回 Promise）
+ *
+ * @example
+ * ```typescript
+ * const { result, profile: p } = profile(solve(puzzle));
+ * writeFileSync('solve.cpuprofile', JSON.stringify(toCpuProfile(p)));
+ * writeFileSync('solve.folded', toCollapsedStacks(p));
+ * console.table(p.functions);
+ * ```
+ */
+export function profile<TReturn>(
+    generator: Generator<unknown, TReturn> | AsyncGenerator<unknown, TReturn>,
+    options: ProfileOptions & { awaitPromises: true }
+): Promise<ProfileResult<TReturn>>;
+export function profile<TReturn>(
+    generator: Generator<unknown, TReturn>,
+    options?: ProfileOptions
+): ProfileResult<TReturn>;
+export function profile<TReturn>(
+    generator: AsyncGenerator<unknown, TReturn>,
+    options?: ProfileOptions
+): Promise<ProfileResult<TReturn>>;
+export function profile<TReturn>(
+    generator: Generator<unknown, TReturn> | AsyncGenerator<unknown, TReturn>,
+    options?: ProfileOptions
+): ProfileResult<TReturn> | Promise<ProfileResult<TReturn>>;
+export function profile<TReturn>(
+    generator: Generator<unknown, TReturn> | AsyncGenerator<unknown, TReturn>,
+    options: ProfileOptions = {}
+): ProfileResult<TReturn> | Promise<ProfileResult<TReturn>> {
+    const recorder = createRecorder(options.hooks);
+    const runOptions = { ...options, hooks: recorder.hooks };
+    if (isAsyncGenerator(generator) || options.awaitPromises) {
+        return run(generator, { ...runOptions, awaitPromises: true })
+            .then(result => ({ result, profile: recorder.finish() }));
+    }
+    const result = run(generator as Generator<unknown, TReturn>, runOptions);
+    return { result, profile: recorder.finish() };
+}
+
+// ==================== 导出格式 ====================
+
+/**
+ * 导出为 Chrome DevTools 的 `.cpuprofile` 格式
+ *
+ * 每个调用树节点的自身耗时合成为一个采样，采样按调用树的前序排列，
+ * 因此火焰图（Flame Chart）中的横轴是按调用关系排列的累计时间，而不是真实的时间线。
+ * 结果可以用 `JSON.stringify` 写入文件，再在 Chrome DevTools、VS Code 或 speedscope 中打开。
+ *
+ * @param profile - 性能分析结果
+ * @returns `.cpuprofile` 对象
+ */
+export function toCpuProfile(profile: Profile): CpuProfile {
+    const cpuProfile: CpuProfile = {
+        nodes: [],
+        startTime: Math.round(profile.startTime * 1000),
+        endTime: 0,
+        samples: [],
+        timeDeltas: []
+    };
+    run(toCpuProfileNode(profile.root, cpuProfile));
+    cpuProfile.endTime = cpuProfile.timeDeltas.reduce((time, delta) => time + delta, cpuProfile.startTime);
+    return cpuProfile;
+}
+
+/**
+ * 按前序把调用树节点写入 `.cpuprofile`
+ *
+ * @returns 节点的 id
+ */
+function* toCpuProfileNode(node: ProfileNode, cpuProfile: CpuProfile): Generator<unknown, number> {
+    const id = cpuProfile.nodes.length + 1;
+    const selfTime = Math.round(node.selfTime * 1000);
+    const cpuNode: CpuProfileNode = {
+        id,
+        callFrame: { functionName: node.name, scriptId: '0', url: '', lineNumber: -1, columnNumber: -1 },
+        hitCount: selfTime > 0 ? 1 : 0
+    };
+    cpuProfile.nodes.push(cpuNode);
+    if (selfTime > 0) {
+        cpuProfile.samples.push(id);
+        cpuProfile.timeDeltas.push(selfTime);
+    }
+
+    if (node.children.length > 0) {
+        const children: number[] = [];
+        for (const child of node.children) {
+            children.push(yield toCpuProfileNode(child, cpuProfile));
+        }
+        cpuNode.children = children;
+    }
+    return id;
+}
+
+/** toCollapsedStacks 的选项 */
+export interface CollapsedStacksOptions {
+    /**
+     * 是否把直接递归（调用同名函数）的帧合并为路径中的一项
+     *
+     * 合并后 `down;down;down` 记为 `down`，深层递归的输出大小与深度成线性关系。
+     * 不合并时每一行都包含完整的路径，输出大小与深度的平方成正比，
+     * 很深的递归可能超出字符串的最大长度。
+     *
+     * @defaultValue true
+     */
+    mergeRecursion?: boolean;
+}
+
+/**
+ * 导出为折叠栈文本（flamegraph.pl、speedscope、inferno 等工具的输入格式）
+ *
+ * 每一行是一条调用路径及其自身耗时：`outer;inner;leaf 1234`，耗时单位为微秒。
+ * 默认合并直接递归的帧，相同的路径合并为一行；
+ * 自身耗时不足 1 微秒的路径被省略，调用树的根节点不出现在路径中。
+ *
+ * @param profile - 性能分析结果
+ * @param options - 导出选项
+ * @returns 折叠栈文本，每行以换行符结尾
+ */
+export function toCollapsedStacks(profile: Profile, options: CollapsedStacksOptions = {}): string {
+    const merge = options.mergeRecursion ?? true;
+    const times = new Map<string, number>();
+    for (const child of profile.root.children) {
+        run(collapse(child, '', undefined, merge, times));
+    }
+    let text = '';
+    for (const [path, time] of times) {
+        const selfTime = Math.round(time * 1000);
+        if (selfTime > 0) {
+            text += `${path} ${selfTime}\n`;
+        }
+    }
+    return text;
+}
+
+/**
+ * 按前序累加各条路径的自身耗时
+ *
+ * @param node - 当前节点
+ * @param parentPath - 父节点的路径，根节点的子节点为空字符串
+ * @param parentName - 父节点的函数名
+ * @param merge - 是否合并直接递归的帧
+ * @param times - 路径到自身耗时（毫秒）的映射
+ */
+function* collapse(
+    node: ProfileNode,
+    parentPath: string,
+    parentName: string | undefined,
+    merge: boolean,
+    times: Map<string, number>
+): Generator<unknown, void, unknown> {
+    // 分号是路径分隔符，换行是行分隔符，不能出现在函数名中
+    const name = node.name.replace(/[;\r\n]/g, '_');
+    const path = merge && name === parentName ? parentPath
+        : parentPath === '' ? name : `${parentPath};${name}`;
+    times.set(path, (times.get(path) ?? 0) + node.selfTime);
+    for (const child of node.children) {
+        yield collapse(child, path, name, merge, times);
+    }
+}
@@ -4,7 +4,59 @@
  * 使用 Node.js 内置的 test runner
  */
 
-import { run, runTail, isGenerator, isAsyncGenerator } from '../dist/index.js';
+import {
+    run,
+    runTail,
+    runSliced,
+    runStream,
+    createRunner,
+    emit,
+    isGenerator,
+    isAsyncGenerator,
+    traced,
+    frameName,
+    getSignal,
+    all,
+    race,
+    allSettled,
+    pool,
+    memo,
+    recursive,
+    call,
+    fold,
+    foldAsync,
+    unfold,
+    unfoldAsync,
+    defineFrame,
+    checkpoint,
+    resume,
+    replay,
+    defineEffect,
+    withHandler,
+    provide,
+    useContext,
+    FrameCleanupError,
+    RecursionLimitError,
+    StepLimitError,
+    TimeoutError,
+    JournalMismatchError
+} from '../dist/index.js';
+import type { FrameFactory } from '../dist/index.js';
+import { deepClone, deepEqual, stringify, parse } from '../dist/data.js';
+import {
+    dfs,
+    dfsAsync,
+    bfs,
+    bfsAsync,
+    topoSort,
+    topoSortAsync,
+    findCycle,
+    findCycleAsync,
+    stronglyConnectedComponents,
+    stronglyConnectedComponentsAsync,
+    CycleError
+} from '../dist/graph.js';
+import { profile, toCpuProfile, toCollapsedStacks } from '../dist/profile.js';
 import { describe, it } from 'node:test';
 import * as assert from 'node:assert';
 
@@ -117,6 +169,109 @@ describe('run', () => {
     });
 });
 
+// ==================== 测试异常传播 ====================
+
+describe('run 异常传播', () => {
+    it('子生成器的异常应该能在父生成器中捕获', () => {
+        function* fail(): Generator<any, number> {
+            throw new Error('boom');
+        }
+
+        function* parent(): Generator<any, string> {
+            try {
+                yield fail();
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(run(parent()), 'boom');
+    });
+
+    it('未处理的异常应该逐层向上传播', () => {
+        const visited: number[] = [];
+
+        function* dive(n: number): Generator<any, number> {
+            if (n === 0) throw new Error('bottom');
+            try {
+                return yield dive(n - 1);
+            } finally {
+                visited.push(n);
+            }
+        }
+
+        function* root(): Generator<any, string> {
+            try {
+                yield dive(3);
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(run(root()), 'bottom');
+        assert.deepStrictEqual(visited, [1, 2, 3]);
+        assert.throws(() => run(dive(3)), /bottom/);
+    });
+
+    it('捕获异常后应该能继续递归', () => {
+        // 简单的回溯：第一个分支失败后尝试第二个
+        function* parseDigit(s: string): Generator<any, number> {
+            if (!/^\d$/.test(s)) throw new SyntaxError(`not a digit: ${s}`);
+            return Number(s);
+        }
+
+        function* parseOr(s: string, fallback: number): Generator<any, number> {
+            try {
+                return yield parseDigit(s);
+            } catch {
+                return yield parseDigit(String(fallback));
+            }
+        }
+
+        assert.strictEqual(run(parseOr('7', 0)), 7);
+        assert.strictEqual(run(parseOr('x', 3)), 3);
+    });
+
+    it('深层异常应该能在根部捕获而不栈溢出', () => {
+        function* deep(n: number): Generator<any, number> {
+            if (n === 0) throw new RangeError('deep');
+            return 1 + (yield deep(n - 1));
+        }
+
+        function* root(): Generator<any, string> {
+            try {
+                return String(yield deep(50000));
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(run(root()), 'deep');
+    });
+
+    it('异步子生成器的异常应该能在父生成器中捕获', async () => {
+        async function* fail(n: number): AsyncGenerator<any, number> {
+            await new Promise(r => setTimeout(r, 1));
+            if (n === 0) throw new Error('async boom');
+            return yield fail(n - 1);
+        }
+
+        async function* parent(): AsyncGenerator<any, string> {
+            try {
+                yield fail(3);
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(await run(parent()), 'async boom');
+        await assert.rejects(run(fail(2)), /async boom/);
+    });
+});
+
 // ==================== 测试 runTail 函数 ====================
 
 describe('runTail', () => {
@@ -195,6 +350,2883 @@ describe('runTail', () => {
     });
 });
 
+// ==================== 测试中止时的栈帧清理 ====================
+
+describe('中止时的栈帧清理', () => {
+    it('runTail 中止时应该执行当前帧的 finally', () => {
+        const log: string[] = [];
+
+        function* step(): Generator<any, number> {
+            try {
+                return yield () => {
+                    throw new Error('thunk failed');
+                };
+            } finally {
+                log.push('cleanup');
+            }
+        }
+
+        assert.throws(() => runTail(step()), /thunk failed/);
+        assert.deepStrictEqual(log, ['cleanup']);
+    });
+
+    it('runTail 遇到无效的生成器函数时应该清理当前帧', () => {
+        const log: string[] = [];
+
+        function* step(): Generator<any, number> {
+            try {
+                return yield () => 42;
+            } finally {
+                log.push('cleanup');
+            }
+        }
+
+        assert.throws(() => runTail(step()), TypeError);
+        assert.deepStrictEqual(log, ['cleanup']);
+    });
+
+    it('finally 块抛出的异常应该汇总为 FrameCleanupError', () => {
+        const original = new Error('thunk failed');
+
+        function* step(): Generator<any, number> {
+            try {
+                return yield () => {
+                    throw original;
+                };
+            } finally {
+                throw new Error('cleanup failed');
+            }
+        }
+
+        assert.throws(() => runTail(step()), (error: unknown) => {
+            assert.ok(error instanceof FrameCleanupError);
+            assert.ok(error instanceof AggregateError);
+            assert.strictEqual(error.error, original);
+            assert.strictEqual(error.errors[0], original);
+            assert.strictEqual(error.cleanupErrors.length, 1);
+            assert.match((error.cleanupErrors[0] as Error).message, /cleanup failed/);
+            return true;
+        });
+    });
+
+    it('异步 runTail 中止时应该执行当前帧的 finally', async () => {
+        const log: string[] = [];
+
+        async function* step(): AsyncGenerator<any, number> {
+            try {
+                return yield async () => {
+                    throw new Error('async thunk failed');
+                };
+            } finally {
+                await new Promise(r => setTimeout(r, 1));
+                log.push('cleanup');
+            }
+        }
+
+        await assert.rejects(runTail(step()), /async thunk failed/);
+        assert.deepStrictEqual(log, ['cleanup']);
+    });
+});
+
+// ==================== 测试逻辑调用栈 ====================
+
+describe('逻辑调用栈追踪', () => {
+    const countdown = traced(function* countdown(n: number): Generator<any, number> {
+        if (n === 0) throw new Error('reached zero');
+        return yield countdown(n - 1);
+    });
+
+    const main = traced(function* main(): Generator<any, number> {
+        return yield countdown(9999);
+    });
+
+    it('默认不附加逻辑调用栈', () => {
+        assert.throws(() => run(main()), (error: any) => {
+            assert.strictEqual(error.recurunStack, undefined);
+            assert.doesNotMatch(error.stack, /RecuRun logical stack/);
+            return true;
+        });
+    });
+
+    it('应该附加逻辑调用栈并折叠重复帧', () => {
+        assert.throws(() => run(main(), { trace: true }), (error: any) => {
+            assert.strictEqual(error.recurunStack.length, 10001);
+            assert.deepStrictEqual(error.recurunStack[0], { name: 'countdown' });
+            assert.deepStrictEqual(error.recurunStack[10000], { name: 'main' });
+            assert.match(error.stack, /RecuRun logical stack:\n {4}at countdown\n {4}at countdown ×9999\n {4}at main/);
+            return true;
+        });
+    });
+
+    it('应该能记录调用参数', () => {
+        // 递归调用包装后的函数，每一帧都会记录参数
+        const down = traced(function* (n: number): Generator<any, number> {
+            if (n === 0) throw new Error('reached zero');
+            return yield down(n - 1);
+        }, 'down');
+
+        assert.throws(() => run(down(3), { trace: { args: true } }), (error: any) => {
+            assert.deepStrictEqual(error.recurunStack[0], { name: 'down', args: [0] });
+            assert.deepStrictEqual(error.recurunStack[3], { name: 'down', args: [3] });
+            assert.match(error.stack, /at down\(0\)\n {4}at down ×3/);
+            return true;
+        });
+    });
+
+    it('被捕获后重新抛出的异常应该保留首次抛出时的调用栈', () => {
+        const rethrow = traced(function* rethrow(): Generator<any, number> {
+            try {
+                return yield countdown(2);
+            } catch (e) {
+                throw e;
+            }
+        });
+
+        assert.throws(() => run(rethrow(), { trace: true }), (error: any) => {
+            assert.deepStrictEqual(
+                error.recurunStack.map((frame: { name: string }) => frame.name),
+                ['countdown', 'countdown', 'countdown', 'rethrow']
+            );
+            return true;
+        });
+    });
+
+    it('未包装的帧应该使用占位名称', async () => {
+        function* plain(): Generator<any, number> {
+            throw new Error('plain');
+        }
+        async function* plainAsync(): AsyncGenerator<any, number> {
+            throw new Error('plain async');
+        }
+
+        assert.throws(() => run(plain(), { trace: true }), (error: any) => {
+            assert.deepStrictEqual(error.recurunStack, [{ name: '<generator>' }]);
+            return true;
+        });
+        await assert.rejects(run(plainAsync(), { trace: true }), (error: any) => {
+            assert.deepStrictEqual(error.recurunStack, [{ name: '<async generator>' }]);
+            return true;
+        });
+    });
+
+    it('应该支持异步生成器和 runTail', async () => {
+        const walk = traced(async function* walk(n: number): AsyncGenerator<any, number> {
+            await new Promise(r => setTimeout(r, 1));
+            if (n === 0) throw new Error('async bottom');
+            return yield walk(n - 1);
+        });
+
+        await assert.rejects(run(walk(3), { trace: true }), (error: any) => {
+            assert.strictEqual(error.recurunStack.length, 4);
+            return true;
+        });
+        await assert.rejects(runTail(walk(3), { trace: true }), (error: any) => {
+            assert.deepStrictEqual(error.recurunStack, [{ name: 'walk' }]);
+            return true;
+        });
+    });
+});
+
+// ==================== 测试递归深度限制 ====================
+
+describe('maxDepth', () => {
+    function* deepSum(n: number): Generator<any, number> {
+        if (n <= 0) return 0;
+        return n + (yield deepSum(n - 1));
+    }
+
+    it('深度不超过限制时应该正常运行', () => {
+        // deepSum(99) 共 100 层
+        assert.strictEqual(run(deepSum(99), { maxDepth: 100 }), 4950);
+    });
+
+    it('深度超过限制时应该抛出 RecursionLimitError', () => {
+        assert.throws(() => run(deepSum(100), { maxDepth: 100 }), (error: unknown) => {
+            assert.ok(error instanceof RecursionLimitError);
+            assert.ok(error instanceof RangeError);
+            assert.strictEqual(error.maxDepth, 100);
+            assert.strictEqual(error.depth, 101);
+            assert.strictEqual(error.frames.length, 10);
+            return true;
+        });
+    });
+
+    it('应该能终止图中环路导致的无限递归并清理所有帧', () => {
+        interface GraphNode {
+            id: string;
+            next: GraphNode[];
+        }
+        const a: GraphNode = { id: 'a', next: [] };
+        const b: GraphNode = { id: 'b', next: [a] };
+        a.next.push(b);
+
+        let open = 0;
+        const visit = traced(function* (node: GraphNode): Generator<any, number> {
+            open++;
+            try {
+                let count = 1;
+                for (const next of node.next) {
+                    count += yield visit(next);
+                }
+                return count;
+            } finally {
+                open--;
+            }
+        }, 'visit');
+
+        assert.throws(() => run(visit(a), { maxDepth: 1000, trace: { args: true } }), (error: unknown) => {
+            assert.ok(error instanceof RecursionLimitError);
+            assert.strictEqual(error.frames[0]!.name, 'visit');
+            assert.deepStrictEqual(error.frames[0]!.args, [a]);
+            return true;
+        });
+        assert.strictEqual(open, 0);
+    });
+
+    it('应该支持异步运行', async () => {
+        let open = 0;
+
+        async function* forever(n: number): AsyncGenerator<any, number> {
+            open++;
+            try {
+                return yield forever(n + 1);
+            } finally {
+                open--;
+            }
+        }
+
+        await assert.rejects(run(forever(0), { maxDepth: 50 }), (error: unknown) => {
+            assert.ok(error instanceof RecursionLimitError);
+            assert.strictEqual(error.depth, 51);
+            return true;
+        });
+        assert.strictEqual(open, 0);
+    });
+});
+
+// ==================== 测试运行预算 ====================
+
+describe('maxSteps / timeoutMs', () => {
+    function* spin(n: number): Generator<any, number> {
+        // 有缺陷的尾递归：永远不会到达终止条件
+        return yield spin(n + 1);
+    }
+
+    it('步数足够时应该正常运行', () => {
+        function* countdown(n: number): Generator<any, number> {
+            if (n <= 0) return 0;
+            return yield countdown(n - 1);
+        }
+
+        // countdown(10) 共 11 个帧：最内层帧 1 步，其余每个帧 2 步
+        assert.strictEqual(run(countdown(10), { maxSteps: 21 }), 0);
+        assert.throws(() => run(countdown(10), { maxSteps: 20 }), StepLimitError);
+    });
+
+    it('runTail 的无限尾递归应该被步数限制终止', () => {
+        assert.throws(() => runTail(spin(0), { maxSteps: 100000 }), (error: unknown) => {
+            assert.ok(error instanceof StepLimitError);
+            assert.strictEqual(error.maxSteps, 100000);
+            return true;
+        });
+    });
+
+    it('runTail 的无限尾递归应该被超时终止', () => {
+        const start = Date.now();
+        assert.throws(() => runTail(spin(0), { timeoutMs: 20 }), (error: unknown) => {
+            assert.ok(error instanceof TimeoutError);
+            assert.strictEqual(error.timeoutMs, 20);
+            return true;
+        });
+        assert.ok(Date.now() - start < 1000);
+    });
+
+    it('中止时应该清理所有存活的帧', () => {
+        let open = 0;
+
+        function* busy(n: number): Generator<any, number> {
+            open++;
+            try {
+                let total = 0;
+                for (let i = 0; i < 1000; i++) {
+                    total += yield busy(n + 1);
+                }
+                return total;
+            } finally {
+                open--;
+            }
+        }
+
+        assert.throws(() => run(busy(0), { timeoutMs: 20 }), TimeoutError);
+        assert.strictEqual(open, 0);
+    });
+
+    it('应该支持异步运行', async () => {
+        let open = 0;
+
+        async function* loop(n: number): AsyncGenerator<any, number> {
+            open++;
+            try {
+                await new Promise(r => setTimeout(r, 1));
+                return yield loop(n + 1);
+            } finally {
+                open--;
+            }
+        }
+
+        await assert.rejects(run(loop(0), { maxSteps: 20 }), StepLimitError);
+        assert.strictEqual(open, 0);
+        await assert.rejects(runTail(loop(0), { timeoutMs: 30 }), TimeoutError);
+    });
+});
+
+// ==================== 测试取消 ====================
+
+describe('signal', () => {
+    it('应该在信号触发后中止异步运行并清理所有帧', async () => {
+        const controller = new AbortController();
+        let open = 0;
+
+        async function* crawl(depth: number): AsyncGenerator<any, number> {
+            open++;
+            try {
+                await new Promise(r => setTimeout(r, 1));
+                if (depth === 5) controller.abort(new Error('client closed'));
+                return 1 + (yield crawl(depth + 1));
+            } finally {
+                open--;
+            }
+        }
+
+        await assert.rejects(run(crawl(0), { signal: controller.signal }), /client closed/);
+        assert.strictEqual(open, 0);
+    });
+
+    it('应该以 AbortError 拒绝默认原因的取消', async () => {
+        async function* forever(): AsyncGenerator<any, number> {
+            await new Promise(r => setTimeout(r, 1));
+            return yield forever();
+        }
+
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+        await assert.rejects(runTail(forever(), { signal: controller.signal }), { name: 'AbortError' });
+    });
+
+    it('已经触发的信号应该让同步运行立即中止', () => {
+        function* never(): Generator<any, number> {
+            throw new Error('should not run');
+        }
+
+        const signal = AbortSignal.abort(new Error('already aborted'));
+        assert.throws(() => run(never(), { signal }), /already aborted/);
+        assert.throws(() => runTail(never(), { signal }), /already aborted/);
+    });
+
+    it('getSignal 应该送回当前运行的信号', async () => {
+        async function* read(): AsyncGenerator<any, AbortSignal | undefined> {
+            return yield getSignal();
+        }
+
+        function* readSync(): Generator<any, AbortSignal | undefined> {
+            return yield getSignal();
+        }
+
+        const controller = new AbortController();
+        assert.strictEqual(await run(read(), { signal: controller.signal }), controller.signal);
+        assert.strictEqual(await runTail(read(), { signal: controller.signal }), controller.signal);
+        assert.strictEqual(run(readSync(), { signal: controller.signal }), controller.signal);
+        assert.strictEqual(await run(read()), undefined);
+    });
+});
+
+// ==================== 测试分片运行 ====================
+
+describe('runSliced', () => {
+    function* deepSum(n: number): Generator<any, number> {
+        if (n <= 0) return 0;
+        return n + (yield deepSum(n - 1));
+    }
+
+    it('应该得到与 run 相同的结果', async () => {
+        assert.strictEqual(await runSliced(deepSum(50000)), run(deepSum(50000)));
+    });
+
+    it('应该按 sliceSteps 分片并使用自定义调度器', async () => {
+        let slices = 0;
+        const scheduler = (callback: () => void) => {
+            slices++;
+            setTimeout(callback, 0);
+        };
+
+        // deepSum(99) 共 100 个帧，199 步
+        assert.strictEqual(await runSliced(deepSum(99), { sliceSteps: 50, scheduler }), 4950);
+        assert.strictEqual(slices, 3);
+    });
+
+    it('运行期间事件循环应该保持响应', async () => {
+        let ticks = 0;
+        const timer = setInterval(() => ticks++, 1);
+
+        function* busy(n: number): Generator<any, number> {
+            if (n <= 0) return 0;
+            let total = 1;
+            for (let i = 0; i < 4; i++) total += yield busy(n - 1);
+            return total;
+        }
+
+        try {
+            await runSliced(busy(9), { sliceMs: 2 });
+        } finally {
+            clearInterval(timer);
+        }
+        assert.ok(ticks > 0);
+    });
+
+    it('应该支持所有内置调度方式', async () => {
+        for (const scheduler of ['immediate', 'message-channel', 'idle', 'timeout'] as const) {
+            assert.strictEqual(await runSliced(deepSum(1000), { sliceSteps: 100, scheduler }), 500500);
+        }
+    });
+
+    it('异常应该以拒绝的形式返回', async () => {
+        function* fail(n: number): Generator<any, number> {
+            if (n === 0) throw new Error('sliced boom');
+            return yield fail(n - 1);
+        }
+
+        await assert.rejects(runSliced(fail(1000), { sliceSteps: 10 }), /sliced boom/);
+        await assert.rejects(runSliced(deepSum(10), { sliceSteps: 0 }), RangeError);
+    });
+
+    it('应该能在两片之间被信号取消', async () => {
+        const controller = new AbortController();
+        let open = 0;
+
+        function* forever(n: number): Generator<any, number> {
+            open++;
+            try {
+                return yield forever(n + 1);
+            } finally {
+                open--;
+            }
+        }
+
+        setTimeout(() => controller.abort(new Error('cancelled')), 10);
+        await assert.rejects(
+            runSliced(forever(0), { sliceSteps: 100, signal: controller.signal, maxDepth: 1e7 }),
+            /cancelled/
+        );
+        assert.strictEqual(open, 0);
+    });
+});
+
+// ==================== 测试并发组合子 ====================
+
+describe('all / race / allSettled', () => {
+    const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+    it('同步运行器应该按顺序运行组合子', () => {
+        const order: number[] = [];
+
+        function* leaf(n: number): Generator<any, number> {
+            order.push(n);
+            if (n < 0) throw new Error(`negative ${n}`);
+            return n * 10;
+        }
+
+        function* parent(): Generator<any, unknown[]> {
+            const a = yield all([leaf(1), leaf(2), leaf(3)]);
+            const b = yield race([leaf(4), leaf(5)]);
+            const c = yield allSettled([leaf(6), leaf(-1)]);
+            return [a, b, c];
+        }
+
+        assert.deepStrictEqual(run(parent()), [
+            [10, 20, 30],
+            40,
+            [{ status: 'fulfilled', value: 60 }, { status: 'rejected', reason: new Error('negative -1') }]
+        ]);
+        assert.deepStrictEqual(order, [1, 2, 3, 4, 6, -1]);
+    });
+
+    it('同步 all 中的异常应该在父帧中抛出', () => {
+        function* leaf(n: number): Generator<any, number> {
+            if (n === 2) throw new Error('leaf failed');
+            return n;
+        }
+
+        function* parent(): Generator<any, string> {
+            try {
+                yield all([leaf(1), leaf(2), leaf(3)]);
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(run(parent()), 'leaf failed');
+    });
+
+    it('同步运行中组合子的异步子生成器应该在 yield 处抛出 TypeError', () => {
+        function* leaf(n: number): Generator<unknown, number> {
+            return n;
+        }
+        async function* asyncLeaf(n: number): AsyncGenerator<unknown, number> {
+            return n;
+        }
+
+        for (const make of [all, race, allSettled]) {
+            function* parent(): Generator<unknown, string> {
+                try {
+                    yield make([leaf(1), asyncLeaf(2)]);
+                    return 'unreachable';
+                } catch (e) {
+                    return (e as Error).message;
+                }
+            }
+            assert.match(run(parent()), /async generator cannot be called from a synchronous run/);
+        }
+
+        function* pooled(): Generator<unknown, unknown> {
+            return yield pool(2, [asyncLeaf(1)]);
+        }
+        assert.throws(() => run(pooled()), TypeError);
+    });
+
+    it('同步组合子应该能处理深层递归', () => {
+        function* depth(n: number): Generator<any, number> {
+            if (n === 0) return 0;
+            const [a] = (yield all([depth(n - 1)])) as number[];
+            return a! + 1;
+        }
+
+        assert.strictEqual(run(depth(10000)), 10000);
+    });
+
+    it('异步 all 应该并发运行子生成器', async () => {
+        let active = 0;
+        let maxActive = 0;
+
+        async function* fetchNode(id: number): AsyncGenerator<any, number> {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await sleep(20);
+            active--;
+            return id;
+        }
+
+        async function* scan(): AsyncGenerator<any, number[]> {
+            return (yield all([fetchNode(1), fetchNode(2), fetchNode(3)])) as number[];
+        }
+
+        assert.deepStrictEqual(await run(scan()), [1, 2, 3]);
+        assert.strictEqual(maxActive, 3);
+    });
+
+    it('异步 all 中的子生成器可以继续递归', async () => {
+        async function* sum(n: number): AsyncGenerator<any, number> {
+            await sleep(1);
+            if (n <= 1) return n;
+            const [a, b] = (yield all([sum(n - 1), sum(n - 2)])) as number[];
+            return a! + b!;
+        }
+
+        assert.strictEqual(await run(sum(10)), 55);
+    });
+
+    it('异步 all 失败时应该取消其余分支', async () => {
+        const log: string[] = [];
+
+        async function* slow(): AsyncGenerator<any, number> {
+            try {
+                for (let i = 0; i < 100; i++) {
+                    await sleep(5);
+                    yield i;
+                }
+                return 0;
+            } finally {
+                log.push('slow closed');
+            }
+        }
+
+        async function* fail(): AsyncGenerator<any, number> {
+            await sleep(10);
+            throw new Error('branch failed');
+        }
+
+        async function* parent(): AsyncGenerator<any, string> {
+            try {
+                yield all([slow(), fail()]);
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(await run(parent()), 'branch failed');
+        assert.deepStrictEqual(log, ['slow closed']);
+    });
+
+    it('异步 race 应该送回最先完成的结果并取消其余分支', async () => {
+        const log: string[] = [];
+
+        async function* after(ms: number, value: string): AsyncGenerator<any, string> {
+            try {
+                for (let waited = 0; waited < ms; waited += 5) {
+                    await sleep(5);
+                    yield waited;
+                }
+                return value;
+            } finally {
+                log.push(`${value} closed`);
+            }
+        }
+
+        async function* parent(): AsyncGenerator<any, string> {
+            return (yield race([after(100, 'slow'), after(10, 'fast')])) as string;
+        }
+
+        assert.strictEqual(await run(parent()), 'fast');
+        assert.deepStrictEqual(log.sort(), ['fast closed', 'slow closed']);
+    });
+
+    it('被取消的分支应该在运行结束之前关闭', async () => {
+        const log: string[] = [];
+
+        async function* slow(ms: number, value: string): AsyncGenerator<unknown, string> {
+            try {
+                await sleep(ms);
+                log.push(`resumed ${value}`);
+                return value;
+            } finally {
+                log.push(`finally ${value}`);
+            }
+        }
+        async function* first(): AsyncGenerator<unknown, string> {
+            return (yield race([slow(50, 'loser'), slow(5, 'winner')])) as string;
+        }
+
+        log.push(`run resolved ${await run(first())}`);
+        assert.deepStrictEqual(log, ['resumed winner', 'finally winner', 'resumed loser', 'finally loser', 'run resolved winner']);
+
+        async function* fail(): AsyncGenerator<unknown, number> {
+            throw new Error('branch failed');
+        }
+        async function* busy(): AsyncGenerator<unknown, number> {
+            try {
+                await sleep(20);
+                return 1;
+            } finally {
+                log.push('busy finally');
+            }
+        }
+        async function* both(): AsyncGenerator<unknown, unknown> {
+            return yield all([fail(), busy()]);
+        }
+
+        log.length = 0;
+        await run(both()).catch(() => { log.push('run rejected'); });
+        assert.deepStrictEqual(log, ['busy finally', 'run rejected']);
+    });
+
+    it('被取消的分支清理失败时应该以 FrameCleanupError 中止运行', async () => {
+        async function* loser(): AsyncGenerator<unknown, string> {
+            try {
+                await sleep(20);
+                yield 'tick';
+                return 'loser';
+            } finally {
+                throw new Error('cleanup failed');
+            }
+        }
+        async function* winner(): AsyncGenerator<unknown, string> {
+            return 'winner';
+        }
+        async function* first(): AsyncGenerator<unknown, string> {
+            try {
+                return (yield race([loser(), winner()])) as string;
+            } catch {
+                return 'caught';
+            }
+        }
+
+        await assert.rejects(run(first()), (error: unknown) => {
+            assert.ok(error instanceof FrameCleanupError);
+            assert.strictEqual(error.error, undefined);
+            assert.deepStrictEqual(error.cleanupErrors.map(e => (e as Error).message), ['cleanup failed']);
+            return true;
+        });
+    });
+
+    it('异步 allSettled 应该等待所有分支', async () => {
+        async function* ok(): AsyncGenerator<any, number> {
+            await sleep(5);
+            return 1;
+        }
+
+        async function* fail(): AsyncGenerator<any, number> {
+            throw new Error('settled failure');
+        }
+
+        async function* parent(): AsyncGenerator<any, unknown> {
+            return yield allSettled([ok(), fail()]);
+        }
+
+        assert.deepStrictEqual(await run(parent()), [
+            { status: 'fulfilled', value: 1 },
+            { status: 'rejected', reason: new Error('settled failure') }
+        ]);
+    });
+
+    it('分支超出运行预算时整个运行应该中止', async () => {
+        async function* forever(): AsyncGenerator<any, number> {
+            await sleep(1);
+            return yield forever();
+        }
+
+        async function* parent(): AsyncGenerator<any, string> {
+            try {
+                yield all([forever(), forever()]);
+                return 'unreachable';
+            } catch {
+                return 'caught';
+            }
+        }
+
+        await assert.rejects(run(parent(), { maxSteps: 50 }), StepLimitError);
+        await assert.rejects(run(parent(), { maxDepth: 20 }), RecursionLimitError);
+    });
+
+    it('应该校验参数，runTail 不支持组合子', () => {
+        function* leaf(): Generator<any, number> {
+            return 1;
+        }
+
+        function* parent(): Generator<any, unknown> {
+            return yield all([leaf()]);
+        }
+
+        assert.throws(() => all([1 as any]), TypeError);
+        assert.throws(() => race([]), TypeError);
+        assert.throws(() => runTail(parent()), /runTail: all\(\) is not supported/);
+    });
+});
+
+// ==================== 测试并发限制 ====================
+
+describe('concurrency / pool', () => {
+    const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+    interface Page {
+        id: number;
+        links: Page[];
+    }
+
+    // 三层、每层 3 个链接的站点
+    function site(depth: number, id = 0): Page {
+        return {
+            id,
+            links: depth === 0 ? [] : [1, 2, 3].map(i => site(depth - 1, id * 10 + i))
+        };
+    }
+
+    it('concurrency 应该限制同时进行 I/O 的分支数量', async () => {
+        let active = 0;
+        let maxActive = 0;
+
+        async function* crawl(page: Page): AsyncGenerator<any, number> {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await sleep(2);
+            active--;
+            const counts = (yield all(page.links.map(crawl))) as number[];
+            return 1 + counts.reduce((a, b) => a + b, 0);
+        }
+
+        assert.strictEqual(await run(crawl(site(3)), { concurrency: 2 }), 40);
+        assert.strictEqual(maxActive, 2);
+
+        maxActive = 0;
+        assert.strictEqual(await run(crawl(site(3))), 40);
+        assert.ok(maxActive > 2);
+    });
+
+    it('concurrency 为 1 时深层递归也不会死锁', async () => {
+        async function* deep(n: number): AsyncGenerator<any, number> {
+            if (n === 0) return 0;
+            const [a] = (yield all([deep(n - 1)])) as number[];
+            return a! + 1;
+        }
+
+        assert.strictEqual(await run(deep(500), { concurrency: 1 }), 500);
+        await assert.rejects(run(deep(1), { concurrency: 0 }), RangeError);
+    });
+
+    it('pool 应该限制分支数量并保持结果顺序', async () => {
+        let active = 0;
+        let maxActive = 0;
+
+        async function* job(id: number): AsyncGenerator<any, number> {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await sleep(10 - id);
+            active--;
+            return id;
+        }
+
+        async function* parent(): AsyncGenerator<any, unknown> {
+            return yield pool(2, [job(1), job(2), job(3), job(4), job(5)]);
+        }
+
+        assert.deepStrictEqual(await run(parent()), [1, 2, 3, 4, 5]);
+        assert.strictEqual(maxActive, 2);
+    });
+
+    it('pool 中的分支失败时应该跳过尚未启动的分支', async () => {
+        const started: number[] = [];
+
+        async function* job(id: number): AsyncGenerator<any, number> {
+            started.push(id);
+            await sleep(5);
+            if (id === 1) throw new Error(`job ${id} failed`);
+            return id;
+        }
+
+        async function* parent(): AsyncGenerator<any, unknown> {
+            return yield pool(1, [job(1), job(2), job(3)]);
+        }
+
+        await assert.rejects(run(parent()), /job 1 failed/);
+        assert.deepStrictEqual(started, [1]);
+    });
+
+    it('同步运行器应该按顺序运行 pool', () => {
+        function* square(n: number): Generator<any, number> {
+            return n * n;
+        }
+
+        function* parent(): Generator<any, unknown> {
+            return yield pool(2, [square(1), square(2), square(3)]);
+        }
+
+        assert.deepStrictEqual(run(parent()), [1, 4, 9]);
+        assert.throws(() => pool(0, []), RangeError);
+    });
+});
+
+// ==================== 测试记忆化 ====================
+
+describe('memo', () => {
+    const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+    it('应该让指数级递归变为线性', () => {
+        let calls = 0;
+        const fib = memo(function* (n: number): Generator<any, number> {
+            calls++;
+            if (n <= 2) return 1;
+            return (yield fib(n - 1)) + (yield fib(n - 2));
+        });
+
+        assert.strictEqual(run(fib(90)), 2880067194370816000);
+        assert.strictEqual(calls, 90);
+        assert.strictEqual(fib.cache.get(10), 55);
+    });
+
+    it('命中缓存时不应该压栈', () => {
+        const square = memo(function* (n: number): Generator<any, number> {
+            return n * n;
+        });
+        square.cache.set(7, 49);
+
+        function* cached(): Generator<any, number> {
+            return yield square(7);
+        }
+
+        function* uncached(): Generator<any, number> {
+            return yield square(8);
+        }
+
+        assert.strictEqual(run(cached(), { maxDepth: 1 }), 49);
+        assert.throws(() => run(uncached(), { maxDepth: 1 }), RecursionLimitError);
+    });
+
+    it('记忆化不应该改变递归所需的 maxDepth', async () => {
+        function* plain(n: number): Generator<unknown, number> {
+            return n === 0 ? 0 : n + ((yield plain(n - 1)) as number);
+        }
+        const sum = memo(function* sumFrame(n: number): Generator<unknown, number> {
+            return n === 0 ? 0 : n + ((yield sum(n - 1)) as number);
+        });
+        const sumAsync = memo(async function* sumAsyncFrame(n: number): AsyncGenerator<unknown, number> {
+            return n === 0 ? 0 : n + ((yield sumAsync(n - 1)) as number);
+        });
+
+        // sum(30) 到 sum(0) 共 31 层
+        assert.strictEqual(run(plain(30), { maxDepth: 31 }), 465);
+        assert.throws(() => run(plain(30), { maxDepth: 30 }), RecursionLimitError);
+        assert.strictEqual(run(sum(30), { maxDepth: 31 }), 465);
+        sum.cache.clear();
+        assert.throws(() => run(sum(30), { maxDepth: 30, trace: { args: true } }), (error: unknown) => {
+            assert.ok(error instanceof RecursionLimitError);
+            // 逻辑调用栈中每层只有一个帧，并带有记忆化函数的名称和参数
+            assert.ok(error.frames.every(frame => frame.name === 'sumFrame'));
+            assert.deepStrictEqual(error.frames[0]!.args, [0]);
+            return true;
+        });
+        assert.strictEqual(await run(sumAsync(30), { maxDepth: 31 }), 465);
+        sumAsync.cache.clear();
+        await assert.rejects(run(sumAsync(30), { maxDepth: 30 }), RecursionLimitError);
+    });
+
+    it('应该支持自定义缓存键和缓存实例', () => {
+        const cache = new Map<unknown, number>();
+        let calls = 0;
+
+        // 编辑距离：以两个下标作为缓存键
+        const distance = memo(function* (a: string, b: string, i: number, j: number): Generator<any, number> {
+            calls++;
+            if (i === a.length) return b.length - j;
+            if (j === b.length) return a.length - i;
+            if (a[i] === b[j]) return yield distance(a, b, i + 1, j + 1);
+            const replace = yield distance(a, b, i + 1, j + 1);
+            const insert = yield distance(a, b, i, j + 1);
+            const remove = yield distance(a, b, i + 1, j);
+            return 1 + Math.min(replace, insert, remove);
+        }, { key: (_a, _b, i, j) => `${i},${j}`, cache });
+
+        assert.strictEqual(run(distance('kitten', 'sitting', 0, 0)), 3);
+        assert.ok(calls <= 7 * 8);
+        assert.strictEqual(cache.get('0,0'), 3);
+    });
+
+    it('异常不应该被缓存', () => {
+        let attempts = 0;
+        const flaky = memo(function* (n: number): Generator<any, number> {
+            attempts++;
+            if (attempts === 1) throw new Error('first attempt failed');
+            return n;
+        });
+
+        assert.throws(() => run(flaky(1)), /first attempt failed/);
+        assert.strictEqual(run(flaky(1)), 1);
+        assert.strictEqual(run(flaky(1)), 1);
+        assert.strictEqual(attempts, 2);
+    });
+
+    it('异步运行中应该合并正在进行的相同调用', async () => {
+        let calls = 0;
+        const load = memo(async function* (id: number): AsyncGenerator<any, string> {
+            calls++;
+            await sleep(10);
+            return `item ${id}`;
+        });
+
+        async function* parent(): AsyncGenerator<any, unknown> {
+            return yield all([load(1), load(1), load(2), load(1)]);
+        }
+
+        assert.deepStrictEqual(await run(parent()), ['item 1', 'item 1', 'item 2', 'item 1']);
+        assert.strictEqual(calls, 2);
+        assert.strictEqual(await run(load(1)), 'item 1');
+        assert.strictEqual(calls, 2);
+    });
+
+    it('异步运行中正在进行的调用失败时等待者也应该失败', async () => {
+        const fail = memo(async function* (id: number): AsyncGenerator<any, string> {
+            await sleep(5);
+            throw new Error(`load ${id} failed`);
+        });
+
+        async function* parent(): AsyncGenerator<any, unknown> {
+            return yield allSettled([fail(1), fail(1)]);
+        }
+
+        const results = (await run(parent())) as PromiseSettledResult<string>[];
+        assert.deepStrictEqual(results.map(r => r.status), ['rejected', 'rejected']);
+    });
+
+    it('等待正在进行的相同调用时不应该占用并发名额', async () => {
+        let calls = 0;
+        const double = memo(async function* (n: number): AsyncGenerator<any, number> {
+            calls++;
+            await sleep(5);
+            return n * 2;
+        });
+
+        async function* parent(): AsyncGenerator<any, unknown> {
+            return yield all([double(1), double(1)]);
+        }
+
+        const result = await Promise.race([
+            run(parent(), { concurrency: 1 }),
+            sleep(1000).then(() => 'timeout')
+        ]);
+        assert.deepStrictEqual(result, [2, 2]);
+        assert.strictEqual(calls, 1);
+    });
+});
+
+// ==================== 测试同步/异步混合递归 ====================
+
+describe('同步/异步混合递归', () => {
+    const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+    it('异步运行应该驱动同步子生成器', async () => {
+        // 同步的纯计算辅助函数
+        function* depth(node: { children: any[] }): Generator<any, number> {
+            let max = 0;
+            for (const child of node.children) {
+                max = Math.max(max, yield depth(child));
+            }
+            return max + 1;
+        }
+
+        async function* load(id: number): AsyncGenerator<any, number> {
+            await sleep(1);
+            const tree = { children: [{ children: [{ children: [] }] }, { children: [] }] };
+            return id + (yield depth(tree));
+        }
+
+        assert.strictEqual(await run(load(10)), 13);
+    });
+
+    it('同步帧中应该可以再调用异步子生成器', async () => {
+        async function* fetchValue(n: number): AsyncGenerator<any, number> {
+            await sleep(1);
+            return n * 10;
+        }
+
+        function* sum(values: number[]): Generator<any, number> {
+            let total = 0;
+            for (const v of values) total += yield fetchValue(v);
+            return total;
+        }
+
+        async function* main(): AsyncGenerator<any, number> {
+            return yield sum([1, 2, 3]);
+        }
+
+        assert.strictEqual(await run(main()), 60);
+    });
+
+    it('同步子帧的深度递归不应该溢出', async () => {
+        function* count(n: number): Generator<any, number> {
+            if (n === 0) return 0;
+            return 1 + (yield count(n - 1));
+        }
+
+        async function* main(): AsyncGenerator<any, number> {
+            return yield count(100000);
+        }
+
+        assert.strictEqual(await run(main()), 100000);
+    });
+
+    it('同步子帧的异常应该传播到异步父帧', async () => {
+        function* fail(): Generator<any, number> {
+            throw new Error('sync failure');
+        }
+
+        async function* main(): AsyncGenerator<any, string> {
+            try {
+                yield fail();
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(await run(main()), 'sync failure');
+    });
+
+    it('组合子的分支可以是同步生成器', async () => {
+        function* square(n: number): Generator<any, number> {
+            return n * n;
+        }
+
+        async function* cube(n: number): AsyncGenerator<any, number> {
+            await sleep(1);
+            return n * n * n;
+        }
+
+        async function* main(): AsyncGenerator<any, number[]> {
+            return yield all([square(3), cube(2)]);
+        }
+
+        assert.deepStrictEqual(await run(main()), [9, 8]);
+    });
+
+    it('异步 runTail 应该可以切换到同步生成器', async () => {
+        function* finish(acc: number): Generator<any, number> {
+            return acc;
+        }
+
+        function* syncLoop(n: number, acc: number): Generator<any, number> {
+            if (n === 0) return yield finish(acc);
+            return yield syncLoop(n - 1, acc + n);
+        }
+
+        async function* start(n: number): AsyncGenerator<any, number> {
+            await sleep(1);
+            return yield () => syncLoop(n, 0);
+        }
+
+        assert.strictEqual(await runTail(start(100000)), 5000050000);
+    });
+});
+
+// ==================== 测试 awaitPromises ====================
+
+describe('awaitPromises', () => {
+    const delay = <T>(value: T, ms = 1) => new Promise<T>(r => setTimeout(() => r(value), ms));
+
+    it('同步生成器 yield 的 Promise 应该被等待', async () => {
+        const children: Record<string, string[]> = { a: ['b', 'c'], b: ['d'], c: [], d: [] };
+
+        function* count(id: string): Generator<any, number> {
+            const list: string[] = yield delay(children[id]);
+            let total = 1;
+            for (const child of list) total += yield count(child);
+            return total;
+        }
+
+        const result = run(count('a'), { awaitPromises: true });
+        assert.ok(result instanceof Promise);
+        assert.strictEqual(await result, 4);
+    });
+
+    it('未开启时 Promise 应该原样送回', () => {
+        const promise = Promise.resolve(1);
+        function* echo(): Generator<any, unknown> {
+            return yield promise;
+        }
+
+        assert.strictEqual(run(echo()), promise);
+    });
+
+    it('Promise 拒绝时应该在 yield 处抛出', async () => {
+        function* load(): Generator<any, string> {
+            try {
+                yield Promise.reject(new Error('not found'));
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        function* loadUncaught(): Generator<any, string> {
+            return yield Promise.reject(new Error('boom'));
+        }
+
+        function* parent(): Generator<any, string> {
+            try {
+                return yield loadUncaught();
+            } catch (e) {
+                return 'parent caught ' + (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(await run(load(), { awaitPromises: true }), 'not found');
+        assert.strictEqual(await run(parent(), { awaitPromises: true }), 'parent caught boom');
+    });
+
+    it('应该支持 runTail', async () => {
+        function* sum(n: number, acc: number): Generator<any, number> {
+            if (n === 0) return acc;
+            const value: number = yield (n % 1000 === 0 ? delay(n) : n);
+            return yield sum(n - 1, acc + value);
+        }
+
+        assert.strictEqual(await runTail(sum(10000, 0), { awaitPromises: true }), 50005000);
+    });
+
+    it('等待 Promise 应该占用并发名额', async () => {
+        let active = 0;
+        let peak = 0;
+        const request = async (n: number) => {
+            active++;
+            peak = Math.max(peak, active);
+            await delay(null, 5);
+            active--;
+            return n;
+        };
+
+        function* task(n: number): Generator<any, number> {
+            return yield request(n);
+        }
+
+        function* main(): Generator<any, number[]> {
+            return yield all([task(1), task(2), task(3), task(4)]);
+        }
+
+        assert.deepStrictEqual(await run(main(), { awaitPromises: true, concurrency: 2 }), [1, 2, 3, 4]);
+        assert.strictEqual(peak, 2);
+    });
+});
+
+// ==================== 测试效果处理 ====================
+
+describe('效果处理', () => {
+    const ask = defineEffect<string, number>('ask');
+
+    function* area(): Generator<any, number> {
+        const width: number = yield ask('width');
+        const height: number = yield ask('height');
+        return width * height;
+    }
+
+    it('应该把效果交给处理函数并送回结果', () => {
+        const config: Record<string, number> = { width: 3, height: 4 };
+        assert.strictEqual(run(area(), { handlers: { [ask.type]: (e: { payload: string }) => config[e.payload] } }), 12);
+    });
+
+    it('普通的 { type } 对象应该被分发，没有处理函数时原样送回', () => {
+        const logs: string[] = [];
+        function* walk(n: number): Generator<any, unknown> {
+            yield { type: 'log', message: `visit ${n}` };
+            if (n > 0) yield walk(n - 1);
+            return yield { type: 'other' };
+        }
+
+        const result = run(walk(2), { handlers: { log: (e: { message: string }) => { logs.push(e.message); } } });
+        assert.deepStrictEqual(logs, ['visit 2', 'visit 1', 'visit 0']);
+        assert.deepStrictEqual(result, { type: 'other' });
+    });
+
+    it('未处理的 defineEffect 效果应该在 yield 处抛出', () => {
+        function* safe(): Generator<any, string> {
+            try {
+                yield ask('width');
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        assert.strictEqual(run(safe()), 'RecuRun: unhandled effect "ask"');
+    });
+
+    it('处理函数抛出的异常应该在 yield 处抛出', () => {
+        function* main(): Generator<any, string> {
+            try {
+                yield ask('missing');
+                return 'unreachable';
+            } catch (e) {
+                return (e as Error).message;
+            }
+        }
+
+        const handlers = { ask: () => { throw new Error('no such key'); } };
+        assert.strictEqual(run(main(), { handlers }), 'no such key');
+    });
+
+    it('withHandler 应该只作用于子调用，并可以委托给外层处理函数', () => {
+        function* inner(): Generator<any, number[]> {
+            return [yield ask('a'), yield ask('b')];
+        }
+
+        function* outer(): Generator<any, unknown[]> {
+            const scoped = yield withHandler({
+                // 处理函数返回的生成器在外层作用域中运行
+                *ask(e: { payload: string }) {
+                    if (e.payload === 'a') return 100;
+                    return (yield ask(e.payload)) as number;
+                }
+            }, inner());
+            return [scoped, yield ask('a')];
+        }
+
+        assert.deepStrictEqual(run(outer(), { handlers: { ask: () => 1 } }), [[100, 1], 1]);
+    });
+
+    it('子调用抛出异常后应该退出其作用域', () => {
+        function* fail(): Generator<any, number> {
+            throw new Error('fail');
+        }
+
+        function* main(): Generator<any, number> {
+            try {
+                yield withHandler({ ask: () => 2 }, fail());
+            } catch {
+                // 忽略
+            }
+            return yield ask('x');
+        }
+
+        assert.strictEqual(run(main(), { handlers: { ask: () => 1 } }), 1);
+    });
+
+    it('异步运行中应该等待处理函数返回的 Promise', async () => {
+        async function* load(): AsyncGenerator<any, number> {
+            const [a, b] = (yield all([area(), area()])) as number[];
+            return a + b;
+        }
+
+        const handlers = { ask: (e: { payload: string }) => Promise.resolve(e.payload === 'width' ? 2 : 5) };
+        assert.strictEqual(await run(load(), { handlers }), 20);
+    });
+
+    it('runTail 中切换到的帧应该继承作用域', () => {
+        function* count(n: number, acc: number): Generator<any, number> {
+            if (n === 0) return acc;
+            const step: number = yield ask('step');
+            return yield count(n - 1, acc + step);
+        }
+
+        function* main(): Generator<any, number> {
+            return yield withHandler({ ask: () => 2 }, count(10000, 0));
+        }
+
+        assert.strictEqual(runTail(main()), 20000);
+    });
+});
+
+// ==================== 测试上下文 ====================
+
+describe('上下文', () => {
+    interface Node { name: string; children: Node[] }
+    const tree: Node = {
+        name: 'root',
+        children: [{ name: 'a', children: [{ name: 'b', children: [] }] }, { name: 'c', children: [] }]
+    };
+
+    it('provide 的值应该由子树继承，内层覆盖外层', () => {
+        function* print(node: Node): Generator<any, string> {
+            const indent: number = yield useContext('indent', 0);
+            let out = ' '.repeat(indent) + node.name + '\n';
+            for (const child of node.children) {
+                out += yield provide('indent', indent + 2, print(child));
+            }
+            return out;
+        }
+
+        assert.strictEqual(run(print(tree)), 'root\n  a\n    b\n  c\n');
+    });
+
+    it('没有提供时应该送回默认值，子调用结束后应该恢复外层的值', () => {
+        const key = Symbol('path');
+
+        function* leaf(): Generator<any, string> {
+            return yield useContext(key);
+        }
+
+        function* main(): Generator<any, unknown[]> {
+            const before = yield useContext(key, 'none');
+            const inner = yield provide(key, '/a', leaf());
+            const after = yield useContext(key);
+            return [before, inner, after];
+        }
+
+        assert.deepStrictEqual(run(main()), ['none', '/a', undefined]);
+    });
+
+    it('异步运行和组合子的分支应该继承上下文', async () => {
+        async function* depthOf(node: Node): AsyncGenerator<any, number[]> {
+            const depth: number = yield useContext('depth', 0);
+            if (node.children.length === 0) return [depth];
+            const results = (yield all(node.children.map(child => visit(child)))) as number[][];
+            return results.flat();
+        }
+
+        // 各分支读取的是 yield all 的帧所在的上下文
+        async function* visit(node: Node): AsyncGenerator<any, number[]> {
+            const depth: number = yield useContext('depth', 0);
+            return yield provide('depth', depth + 1, depthOf(node));
+        }
+
+        assert.deepStrictEqual(await run(depthOf(tree)), [2, 1]);
+    });
+
+    it('runTail 中切换到的帧应该继承调用方的上下文', async () => {
+        function* loop(n: number): Generator<any, string> {
+            if (n > 0) return yield loop(n - 1);
+            return yield useContext('user');
+        }
+
+        function* main(): Generator<any, string> {
+            return yield provide('user', 'alice', loop(1000));
+        }
+
+        async function* asyncMain(): AsyncGenerator<any, string> {
+            return yield () => provideAsync();
+        }
+        async function* provideAsync(): AsyncGenerator<any, string> {
+            return yield provide('user', 'bob', loop(10));
+        }
+
+        assert.strictEqual(runTail(main()), 'alice');
+        assert.strictEqual(await runTail(asyncMain()), 'bob');
+    });
+});
+
+// ==================== 测试递归函数 ====================
+
+describe('recursive', () => {
+    it('直接调用应该运行整个递归', () => {
+        const fib = recursive(function* (n: number): Generator<unknown, number> {
+            if (n <= 2) return 1;
+            return (yield* fib.call(n - 1)) + (yield* fib.call(n - 2));
+        });
+
+        assert.strictEqual(fib(20), 6765);
+        assert.strictEqual(run(fib.gen(10)), 55);
+    });
+
+    it('yield* call 不应该额外占用栈帧', () => {
+        const depth = recursive(function* (n: number): Generator<unknown, number> {
+            if (n === 0) return 0;
+            return 1 + (yield* depth.call(n - 1));
+        }, { maxDepth: 100 });
+
+        assert.strictEqual(depth(99), 99);
+        assert.throws(() => depth(100), RecursionLimitError);
+        assert.strictEqual(depth.name, '');
+    });
+
+    it('应该支持在其他递归函数中调用', () => {
+        const sum = recursive(function* (values: number[]): Generator<unknown, number> {
+            if (values.length === 0) return 0;
+            const rest = (yield sum.gen(values.slice(1))) as number;
+            return values[0]! + rest;
+        });
+
+        function* average(values: number[]): Generator<unknown, number> {
+            return (yield* sum.call(values)) / values.length;
+        }
+
+        assert.strictEqual(run(average([1, 2, 3, 4])), 2.5);
+    });
+
+    it('异步生成器函数直接调用时应该返回 Promise', async () => {
+        const countdown = recursive(async function* count(n: number): AsyncGenerator<unknown, number[]> {
+            await new Promise(r => setTimeout(r, 1));
+            if (n === 0) return [0];
+            return [n, ...(yield* countdown.call(n - 1))];
+        });
+
+        const result = countdown(3);
+        assert.ok(result instanceof Promise);
+        assert.deepStrictEqual(await result, [3, 2, 1, 0]);
+        assert.strictEqual(countdown.name, 'count');
+    });
+});
+
+// ==================== 测试类型化调用 ====================
+
+describe('call', () => {
+    it('yield* call 应该送回子调用的结果', () => {
+        function* fib(n: number): Generator<unknown, number> {
+            if (n <= 2) return 1;
+            return (yield* call(fib(n - 1))) + (yield* call(fib(n - 2)));
+        }
+
+        assert.strictEqual(run(fib(20)), 6765);
+    });
+
+    it('应该支持指令和异步运行', async () => {
+        async function* square(n: number): AsyncGenerator<unknown, number> {
+            return n * n;
+        }
+
+        async function* main(): AsyncGenerator<unknown, number> {
+            const squares = yield* call(all([square(2), square(3)]));
+            const offset = yield* call(useContext('offset', 1));
+            return squares[0] + squares[1] + offset;
+        }
+
+        assert.strictEqual(await run(main()), 14);
+    });
+
+    it('不应该额外占用栈帧', () => {
+        function* depth(n: number): Generator<unknown, number> {
+            if (n === 0) return 0;
+            return 1 + (yield* call(depth(n - 1)));
+        }
+
+        assert.strictEqual(run(depth(9), { maxDepth: 10 }), 9);
+        assert.throws(() => run(depth(10), { maxDepth: 10 }), RecursionLimitError);
+    });
+});
+
+// ==================== 测试折叠与展开 ====================
+
+describe('fold / unfold', () => {
+    interface ListNode { value: number; next: ListNode | null }
+
+    it('fold 应该自底向上归约树', () => {
+        const json = { a: [1, 2, { b: 3 }], c: 'x', d: null };
+        const leaves = fold<unknown, number>(json, {
+            children: v => (typeof v === 'object' && v !== null ? Object.values(v) : null),
+            combine: (_v, counts) => (counts.length === 0 ? 1 : counts.reduce((a, b) => a + b, 0))
+        });
+
+        assert.strictEqual(leaves, 5);
+    });
+
+    it('fold 应该能处理超深结构', () => {
+        let list: ListNode | null = null;
+        for (let i = 1; i <= 100000; i++) list = { value: i, next: list };
+
+        const sum = fold<ListNode, number>(list!, {
+            children: node => (node.next ? [node.next] : null),
+            combine: (node, [rest = 0]) => node.value + rest
+        });
+
+        assert.strictEqual(sum, 5000050000);
+    });
+
+    it('fold 应该遵守运行选项', () => {
+        const spec = {
+            children: (n: number) => (n > 0 ? [n - 1] : null),
+            combine: (n: number, [r = 0]: number[]) => n + r
+        };
+
+        assert.strictEqual(fold(10, spec, { maxDepth: 11 }), 55);
+        assert.throws(() => fold(10, spec, { maxDepth: 10 }), RecursionLimitError);
+    });
+
+    it('unfold 应该从种子构建树', () => {
+        const tree = unfold(2, {
+            expand: (depth: number) => ({ value: `d${depth}`, children: depth > 0 ? [depth - 1, depth - 1] : null })
+        });
+
+        assert.deepStrictEqual(tree, {
+            value: 'd2',
+            children: [
+                { value: 'd1', children: [{ value: 'd0', children: [] }, { value: 'd0', children: [] }] },
+                { value: 'd1', children: [{ value: 'd0', children: [] }, { value: 'd0', children: [] }] }
+            ]
+        });
+
+        // 超深链表
+        let depth = 0;
+        let node = unfold(0, { expand: (i: number) => ({ value: i, children: i < 100000 ? [i + 1] : null }) });
+        while (node.children.length > 0) {
+            node = node.children[0]!;
+            depth++;
+        }
+        assert.strictEqual(depth, 100000);
+    });
+
+    it('异步版本应该等待回调返回的 Promise', async () => {
+        const fs: Record<string, string[] | number> = { '/': ['/a', '/b'], '/a': ['/a/x'], '/a/x': 3, '/b': 4 };
+        const tick = <T>(v: T) => new Promise<T>(r => setTimeout(() => r(v), 1));
+
+        const size = await foldAsync<string, number>('/', {
+            children: async path => (Array.isArray(fs[path]) ? tick(fs[path] as string[]) : null),
+            combine: async (path, sizes) => (sizes.length ? sizes.reduce((a, b) => a + b, 0) : tick(fs[path] as number))
+        });
+        assert.strictEqual(size, 7);
+
+        const tree = await unfoldAsync('/', {
+            expand: async (path: string) => ({
+                value: path,
+                children: Array.isArray(fs[path]) ? await tick(fs[path] as string[]) : null
+            })
+        });
+        assert.deepStrictEqual(tree.children.map(c => c.value), ['/a', '/b']);
+        assert.strictEqual(tree.children[0]!.children[0]!.value, '/a/x');
+    });
+
+    it('异步版本中回调返回的对象不应该被当作递归调用或效果', async () => {
+        const result = await foldAsync<number, unknown>(1, {
+            children: () => null,
+            combine: () => ({ type: 'log' })
+        }, { handlers: { log: () => 'handled' } });
+
+        assert.deepStrictEqual(result, { type: 'log' });
+    });
+});
+
+// ==================== 数据工具 ====================
+
+describe('recurun/data', () => {
+    /** 构造嵌套 depth 层的链表对象 */
+    function nested(depth: number): any {
+        let value: any = null;
+        for (let i = 0; i < depth; i++) value = { next: value };
+        return value;
+    }
+
+    it('deepClone 应该拷贝各种内置类型', () => {
+        const source: any = {
+            n: 1,
+            list: [1, , { a: 2 }],
+            date: new Date(0),
+            re: /x/gi,
+            map: new Map<any, any>([['k', { v: 1 }]]),
+            set: new Set([1, 2]),
+            bytes: new Uint8Array([1, 2, 3]),
+            [Symbol.for('s')]: { deep: true }
+        };
+        const copy = deepClone(source);
+
+        assert.notStrictEqual(copy, source);
+        assert.notStrictEqual(copy.list[2], source.list[2]);
+        assert.strictEqual(1 in copy.list, false);
+        assert.notStrictEqual(copy.date, source.date);
+        assert.strictEqual(copy.re.flags, 'gi');
+        assert.notStrictEqual(copy.map.get('k'), source.map.get('k'));
+        assert.notStrictEqual(copy.bytes, source.bytes);
+        assert.notStrictEqual(copy[Symbol.for('s')], source[Symbol.for('s')]);
+        assert.ok(deepEqual(copy, source));
+    });
+
+    it('deepClone 应该保留循环引用、共享引用和原型', () => {
+        class Point {
+            x: number;
+            constructor(x: number) { this.x = x; }
+        }
+        const shared = new Point(1);
+        const source: any = { a: shared, b: shared };
+        source.self = source;
+
+        const copy = deepClone(source);
+        assert.strictEqual(copy.self, copy);
+        assert.strictEqual(copy.a, copy.b);
+        assert.notStrictEqual(copy.a, shared);
+        assert.ok(copy.a instanceof Point);
+    });
+
+    it('deepEqual 应该正确比较值', () => {
+        assert.strictEqual(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }), true);
+        assert.strictEqual(deepEqual([NaN], [NaN]), true);
+        assert.strictEqual(deepEqual({ a: 1 }, { a: '1' }), false);
+        assert.strictEqual(deepEqual({ a: 1 }, { a: 1, b: undefined }), false);
+        assert.strictEqual(deepEqual([1, 2], { 0: 1, 1: 2 }), false);
+        assert.strictEqual(deepEqual(new Date(1), new Date(1)), true);
+        assert.strictEqual(deepEqual(new Map([[1, { a: 1 }]]), new Map([[1, { a: 2 }]])), false);
+        assert.strictEqual(deepEqual(new Set([1]), new Set([2])), false);
+    });
+
+    it('deepEqual 应该比较包装的原始值和 Error 的内部状态', () => {
+        const symbol = Symbol('s');
+
+        assert.strictEqual(deepEqual(new Number(1), new Number(1)), true);
+        assert.strictEqual(deepEqual(new Number(1), new Number(2)), false);
+        assert.strictEqual(deepEqual(new Number(NaN), new Number(NaN)), true);
+        assert.strictEqual(deepEqual(new String('a'), new String('b')), false);
+        assert.strictEqual(deepEqual(new Boolean(true), new Boolean(false)), false);
+        assert.strictEqual(deepEqual(Object(1n), Object(1n)), true);
+        assert.strictEqual(deepEqual(Object(1n), Object(2n)), false);
+        assert.strictEqual(deepEqual(Object(symbol), Object(symbol)), true);
+        assert.strictEqual(deepEqual(Object(symbol), Object(Symbol('s'))), false);
+
+        assert.strictEqual(deepEqual(new Error('a'), new Error('a')), true);
+        assert.strictEqual(deepEqual(new Error('a'), new Error('b')), false);
+        assert.strictEqual(deepEqual(new TypeError('a'), new RangeError('a')), false);
+        const renamed = new Error('a');
+        renamed.name = 'Custom';
+        assert.strictEqual(deepEqual(renamed, new Error('a')), false);
+    });
+
+    it('deepEqual 应该处理循环引用', () => {
+        const a: any = { v: 1 };
+        a.self = a;
+        const b: any = { v: 1 };
+        b.self = b;
+        const c: any = { v: 2 };
+        c.self = c;
+
+        assert.strictEqual(deepEqual(a, b), true);
+        assert.strictEqual(deepEqual(a, c), false);
+    });
+
+    it('stringify 应该与 JSON.stringify 一致', () => {
+        const value = {
+            s: 'a"b\n',
+            n: -0,
+            inf: Infinity,
+            u: undefined,
+            f() {},
+            list: [undefined, () => 1, null, true],
+            date: new Date(0),
+            boxed: new String('x'),
+            empty: {},
+            nested: { a: [] }
+        };
+        const replacer = (key: string, v: any) => (key === 's' ? v.toUpperCase() : v);
+
+        assert.strictEqual(stringify(value), JSON.stringify(value));
+        assert.strictEqual(stringify(value, null, 2), JSON.stringify(value, null, 2));
+        assert.strictEqual(stringify(value, replacer, '\t'), JSON.stringify(value, replacer, '\t'));
+        assert.strictEqual(stringify(value, ['s', 'nested', 'a']), JSON.stringify(value, ['s', 'nested', 'a']));
+        assert.strictEqual(stringify(undefined), undefined);
+        assert.strictEqual(stringify('x'), '"x"');
+    });
+
+    it('stringify 应该拒绝循环引用和 BigInt', () => {
+        const a: any = {};
+        a.self = a;
+        assert.throws(() => stringify(a), TypeError);
+        assert.throws(() => stringify({ n: 1n }), TypeError);
+
+        // 同一对象出现在不同分支不是循环引用
+        const shared = { x: 1 };
+        assert.strictEqual(stringify([shared, shared]), '[{"x":1},{"x":1}]');
+    });
+
+    it('parse 应该与 JSON.parse 一致', () => {
+        const text = ' {"a":[1,-2.5e3,"x\\u0041\\n",true,false,null],"b":{},"__proto__":{"c":[]}} ';
+        const result = parse(text);
+        assert.deepStrictEqual(result, JSON.parse(text));
+        assert.ok(Object.prototype.hasOwnProperty.call(result, '__proto__'));
+        assert.strictEqual(Object.getPrototypeOf(result), Object.prototype);
+        assert.strictEqual(parse('42'), 42);
+    });
+
+    it('parse 应该按 JSON.parse 的顺序调用 reviver', () => {
+        const text = '{"a":[1,{"b":2}],"c":3}';
+        const calls: string[] = [];
+        const expected: string[] = [];
+        const reviver = (log: string[]) => function (this: any, key: string, value: any) {
+            log.push(key);
+            return key === 'c' ? undefined : typeof value === 'number' ? value * 10 : value;
+        };
+
+        const result = parse(text, reviver(calls));
+        const native = JSON.parse(text, reviver(expected));
+        assert.deepStrictEqual(result, native);
+        assert.deepStrictEqual(calls, expected);
+    });
+
+    it('parse 应该对非法输入抛出 SyntaxError', () => {
+        for (const text of ['', '{', '[1,]', '{"a" 1}', '{a:1}', '01', '"\\x"', 'tru', '[1] 2', '"a\nb"']) {
+            assert.throws(() => parse(text), SyntaxError, text);
+        }
+    });
+
+    it('应该处理极深的嵌套而不栈溢出', () => {
+        const depth = 100000;
+        const deep = nested(depth);
+
+        const copy = deepClone(deep);
+        assert.ok(deepEqual(copy, deep));
+
+        const text = stringify(deep)!;
+        assert.strictEqual(text.length, '{"next":'.length * depth + 'null'.length + depth);
+        assert.ok(deepEqual(parse(text), deep));
+
+        const arrays = '['.repeat(depth) + ']'.repeat(depth);
+        let result = parse(arrays);
+        let levels = 0;
+        while (Array.isArray(result) && result.length > 0) {
+            result = result[0];
+            levels++;
+        }
+        assert.strictEqual(levels, depth - 1);
+    });
+
+    it('应该支持运行选项限制不可信输入', () => {
+        const text = '['.repeat(100) + ']'.repeat(100);
+        assert.throws(() => parse(text, null, { maxDepth: 10 }), RecursionLimitError);
+        assert.throws(() => deepClone(nested(100), { maxDepth: 10 }), RecursionLimitError);
+        assert.deepStrictEqual(parse('[[1]]', null, { maxDepth: 10 }), [[1]]);
+    });
+});
+
+// ==================== 图算法 ====================
+
+describe('recurun/graph', () => {
+    const graph: Record<string, string[]> = {
+        a: ['b', 'c'],
+        b: ['d'],
+        c: ['d', 'a'],
+        d: [],
+        e: ['d']
+    };
+    const neighbors = (n: string) => graph[n];
+    const later = <T>(value: T) => new Promise<T>(resolve => setTimeout(resolve, 0, value));
+
+    /** 0 → 1 → ... → n - 1 的长链 */
+    const chain = (n: number) => (i: number) => (i + 1 < n ? [i + 1] : []);
+
+    it('dfs 应该按前序返回可达节点并调用 pre/post', () => {
+        const events: string[] = [];
+        const order = dfs('a', neighbors, {
+            pre: (node, parent) => { events.push(`pre ${node} ${parent}`); },
+            post: (node) => { events.push(`post ${node}`); }
+        });
+
+        assert.deepStrictEqual(order, ['a', 'b', 'd', 'c']);
+        assert.deepStrictEqual(events, [
+            'pre a undefined', 'pre b a', 'pre d b', 'post d', 'post b', 'pre c a', 'post c', 'post a'
+        ]);
+    });
+
+    it('dfs 的 pre 返回 false 时应该跳过邻居', () => {
+        const order = dfs('a', neighbors, { pre: (node) => node !== 'b' });
+        assert.deepStrictEqual(order, ['a', 'b', 'c', 'd']);
+    });
+
+    it('bfs 应该按距离返回可达节点', () => {
+        const depths: Record<string, number> = {};
+        const order = bfs('a', neighbors, { visit: (node, depth) => { depths[node] = depth; } });
+
+        assert.deepStrictEqual(order, ['a', 'b', 'c', 'd']);
+        assert.deepStrictEqual(depths, { a: 0, b: 1, c: 1, d: 2 });
+    });
+
+    it('topoSort 应该让每个节点排在其邻居之前', () => {
+        const dag: Record<string, string[]> = { shirt: ['tie'], tie: ['jacket'], pants: ['shoes', 'jacket'], jacket: [], shoes: [] };
+        const order = topoSort(Object.keys(dag), (n) => dag[n]);
+
+        assert.deepStrictEqual(order, ['pants', 'shoes', 'shirt', 'tie', 'jacket']);
+    });
+
+    it('topoSort 遇到环时应该抛出 CycleError', () => {
+        assert.throws(
+            () => topoSort(Object.keys(graph), neighbors),
+            (error: unknown) => error instanceof CycleError && assert.deepStrictEqual(error.cycle, ['a', 'c']) === undefined
+        );
+    });
+
+    it('findCycle 应该返回环或 undefined', () => {
+        assert.deepStrictEqual(findCycle(['a'], neighbors), ['a', 'c']);
+        assert.deepStrictEqual(findCycle(['x'], () => ['x']), ['x']);
+        assert.strictEqual(findCycle(['e'], neighbors), undefined);
+    });
+
+    it('stronglyConnectedComponents 应该按逆拓扑序返回分量', () => {
+        const components = stronglyConnectedComponents(Object.keys(graph), neighbors);
+        assert.deepStrictEqual(components, [['d'], ['b'], ['c', 'a'], ['e']]);
+    });
+
+    it('异步版本应该等待 neighbors 和回调返回的 Promise', async () => {
+        const asyncNeighbors = (n: string) => later(graph[n]);
+        const posts: string[] = [];
+
+        const order = await dfsAsync('a', asyncNeighbors, { post: async (node) => { await later(0); posts.push(node); } });
+        assert.deepStrictEqual(order, ['a', 'b', 'd', 'c']);
+        assert.deepStrictEqual(posts, ['d', 'b', 'c', 'a']);
+
+        assert.deepStrictEqual(await bfsAsync('a', asyncNeighbors, { visit: async (node) => node !== 'c' }), ['a', 'b', 'c', 'd']);
+        assert.deepStrictEqual(await findCycleAsync(['a'], asyncNeighbors), ['a', 'c']);
+        await assert.rejects(topoSortAsync(['a'], asyncNeighbors), CycleError);
+        assert.deepStrictEqual(await topoSortAsync(['e'], asyncNeighbors), ['e', 'd']);
+        assert.deepStrictEqual(await stronglyConnectedComponentsAsync(['a'], asyncNeighbors), [['d'], ['b'], ['c', 'a']]);
+    });
+
+    it('应该处理很长的链而不栈溢出', async () => {
+        const n = 200000;
+        assert.strictEqual(dfs(0, chain(n)).length, n);
+        assert.strictEqual(topoSort([0], chain(n))[n - 1], n - 1);
+        assert.strictEqual(stronglyConnectedComponents([0], chain(n)).length, n);
+
+        // 首尾相连成环
+        const ring = (i: number) => [(i + 1) % n];
+        assert.strictEqual(findCycle([0], ring)!.length, n);
+        assert.strictEqual(stronglyConnectedComponents([0], ring)[0]!.length, n);
+
+        const asyncChain = chain(20000);
+        assert.strictEqual((await dfsAsync(0, (i) => Promise.resolve(asyncChain(i)))).length, 20000);
+    });
+
+    it('应该支持运行选项', () => {
+        assert.throws(() => dfs(0, chain(100), { maxDepth: 10 }), RecursionLimitError);
+
+        const controller = new AbortController();
+        controller.abort();
+        assert.throws(() => topoSort([0], chain(10), { signal: controller.signal }));
+    });
+});
+
+// ==================== 流式运行 ====================
+
+describe('runStream / emit', () => {
+    interface Tree {
+        value: number;
+        children: Tree[];
+    }
+    const tree: Tree = {
+        value: 1,
+        children: [
+            { value: 2, children: [{ value: 3, children: [] }] },
+            { value: 4, children: [] }
+        ]
+    };
+
+    function* preorder(node: Tree, log?: number[]): Generator<unknown, void> {
+        log?.push(node.value);
+        yield emit(node.value);
+        for (const child of node.children) {
+            yield preorder(child, log);
+        }
+    }
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('同步生成器应该返回按顺序产出值的 Iterable', () => {
+        assert.deepStrictEqual([...runStream<number>(preorder(tree))], [1, 2, 3, 4]);
+    });
+
+    it('同步流应该是惰性的', () => {
+        const log: number[] = [];
+        const iterator = runStream<number>(preorder(tree, log));
+
+        assert.deepStrictEqual(log, []);
+        assert.deepStrictEqual(iterator.next(), { value: 1, done: false });
+        assert.deepStrictEqual(iterator.next(), { value: 2, done: false });
+        assert.deepStrictEqual(log, [1, 2]);
+    });
+
+    it('emit 应该送回 undefined 并且可以出现在递归调用之后', () => {
+        function* postorder(node: Tree): Generator<unknown, void> {
+            for (const child of node.children) {
+                yield postorder(child);
+            }
+            const sent = yield emit(node.value);
+            assert.strictEqual(sent, undefined);
+        }
+        assert.deepStrictEqual([...runStream(postorder(tree))], [3, 2, 4, 1]);
+    });
+
+    it('提前结束迭代时应该关闭所有存活的帧', () => {
+        const closed: number[] = [];
+        function* walk(node: Tree): Generator<unknown, void> {
+            try {
+                yield emit(node.value);
+                for (const child of node.children) {
+                    yield walk(child);
+                }
+            } finally {
+                closed.push(node.value);
+            }
+        }
+
+        for (const value of runStream(walk(tree))) {
+            if (value === 3) break;
+        }
+        assert.deepStrictEqual(closed, [3, 2, 1]);
+    });
+
+    it('帧抛出的异常应该在消费方抛出', () => {
+        function* failing(): Generator<unknown, void> {
+            yield emit(1);
+            throw new Error('boom');
+        }
+        const received: unknown[] = [];
+        assert.throws(() => {
+            for (const value of runStream(failing())) received.push(value);
+        }, /boom/);
+        assert.deepStrictEqual(received, [1]);
+    });
+
+    it('在 runStream 之外使用 emit 应该在 yield 处抛出 TypeError', async () => {
+        function* tryEmit(): Generator<unknown, string> {
+            try {
+                yield emit(1);
+                return 'emitted';
+            } catch (error) {
+                return (error as Error).constructor.name;
+            }
+        }
+        async function* tryEmitAsync(): AsyncGenerator<unknown, string> {
+            return yield tryEmit();
+        }
+
+        assert.strictEqual(run(tryEmit()), 'TypeError');
+        assert.strictEqual(runTail(tryEmit()), 'TypeError');
+        assert.strictEqual(await run(tryEmitAsync()), 'TypeError');
+        assert.strictEqual(await runSliced(tryEmit()), 'TypeError');
+    });
+
+    it('应该处理很深的递归', () => {
+        function* countdown(n: number): Generator<unknown, void> {
+            if (n === 0) return;
+            yield emit(n);
+            yield countdown(n - 1);
+        }
+        let count = 0;
+        for (const _ of runStream(countdown(100000))) count++;
+        assert.strictEqual(count, 100000);
+    });
+
+    it('异步生成器应该返回带背压的 AsyncIterable', async () => {
+        let emitted = 0;
+        async function* produce(n: number): AsyncGenerator<unknown, void> {
+            if (n === 0) return;
+            await delay(1);
+            emitted++;
+            yield emit(n);
+            yield produce(n - 1);
+        }
+
+        const received: unknown[] = [];
+        for await (const value of runStream(produce(5))) {
+            received.push(value);
+            // 消费方处理当前值时，生产方不会继续产出
+            assert.strictEqual(emitted, received.length);
+            await delay(5);
+        }
+        assert.deepStrictEqual(received, [5, 4, 3, 2, 1]);
+    });
+
+    it('awaitPromises 模式应该返回 AsyncIterable', async () => {
+        function* walk(node: Tree): Generator<unknown, void> {
+            const value = yield Promise.resolve(node.value);
+            yield emit(value);
+            for (const child of node.children) {
+                yield walk(child);
+            }
+        }
+        const received: unknown[] = [];
+        for await (const value of runStream(walk(tree), { awaitPromises: true })) {
+            received.push(value);
+        }
+        assert.deepStrictEqual(received, [1, 2, 3, 4]);
+    });
+
+    it('异步流提前结束时应该关闭存活的帧并停止运行', async () => {
+        const closed: number[] = [];
+        let produced = 0;
+        async function* infinite(n: number): AsyncGenerator<unknown, void> {
+            try {
+                produced++;
+                yield emit(n);
+                yield infinite(n + 1);
+            } finally {
+                closed.push(n);
+            }
+        }
+
+        for await (const value of runStream(infinite(0))) {
+            if (value === 2) break;
+        }
+        assert.deepStrictEqual(closed, [2, 1, 0]);
+        await delay(5);
+        assert.strictEqual(produced, 3);
+    });
+
+    it('组合子的分支应该都能 emit', async () => {
+        async function* leaf(value: number): AsyncGenerator<unknown, void> {
+            await delay(value);
+            yield emit(value);
+        }
+        async function* root(): AsyncGenerator<unknown, void> {
+            yield all([leaf(3), leaf(1), leaf(2)]);
+        }
+
+        const received: number[] = [];
+        for await (const value of runStream<number>(root())) {
+            received.push(value);
+        }
+        assert.deepStrictEqual(received.sort(), [1, 2, 3]);
+    });
+
+    it('应该响应取消信号', async () => {
+        const controller = new AbortController();
+        async function* forever(n: number): AsyncGenerator<unknown, void> {
+            yield emit(n);
+            yield forever(n + 1);
+        }
+
+        await assert.rejects(async () => {
+            for await (const value of runStream(forever(0), { signal: controller.signal })) {
+                if (value === 3) controller.abort(new Error('cancelled'));
+            }
+        }, /cancelled/);
+    });
+});
+
+// ==================== 可恢复的帧 ====================
+
+describe('defineFrame / checkpoint / resume', () => {
+    /** 1 + 2 + ... + n，每层递归一帧 */
+    type SumState = { n: number; waiting?: boolean };
+    const sum: FrameFactory<SumState, number> = defineFrame<SumState, number>('test.sum', (state, input) => {
+        if (state.n === 0) return { return: 0 };
+        if (!state.waiting) return { state: { ...state, waiting: true }, yield: sum({ n: state.n - 1 }) };
+        return { return: state.n + (input as number) };
+    });
+
+    /** 斐波那契数列：两次递归调用之间需要保存第一次的结果 */
+    type FibState = { n: number; pc: number; a?: number };
+    const fib: FrameFactory<FibState, number> = defineFrame<FibState, number>('test.fib', (state, input) => {
+        if (state.n <= 2) return { return: 1 };
+        switch (state.pc) {
+            case 0: return { state: { ...state, pc: 1 }, yield: fib({ n: state.n - 1, pc: 0 }) };
+            case 1: return { state: { ...state, pc: 2, a: input as number }, yield: fib({ n: state.n - 2, pc: 0 }) };
+            default: return { return: state.a! + (input as number) };
+        }
+    });
+
+    /** 模拟异步爬虫：每个页面的链接由 Promise 返回 */
+    const links: Record<string, string[]> = { '/': ['/a', '/b'], '/a': ['/c'], '/b': [], '/c': [] };
+    let fetches: string[] = [];
+    const fetchLinks = (url: string) => {
+        fetches.push(url);
+        return new Promise<string[]>(resolve => setTimeout(resolve, 1, links[url]));
+    };
+    type CrawlState = { url: string; links?: string[]; i: number; found: string[] };
+    const crawl: FrameFactory<CrawlState, string[]> = defineFrame<CrawlState, string[]>(
+        'test.crawl',
+        (state, input) => {
+            if (!state.links) {
+                if (input === undefined) return { state, yield: fetchLinks(state.url) };
+                return { state: { ...state, links: input as string[] }, yield: undefined };
+            }
+            const found = state.i === 0 ? [state.url] : [...state.found, ...(input as string[])];
+            if (state.i === state.links.length) return { return: found };
+            return { state: { ...state, i: state.i + 1, found }, yield: crawl({ url: state.links[state.i]!, i: 0, found: [] }) };
+        }
+    );
+
+    it('可恢复的帧应该像普通生成器一样运行', () => {
+        assert.strictEqual(run(sum({ n: 100 })), 5050);
+        assert.strictEqual(run(fib({ n: 20, pc: 0 })), 6765);
+        assert.strictEqual(sum.frameName, 'test.sum');
+    });
+
+    it('应该支持很深的递归', () => {
+        assert.strictEqual(run(sum({ n: 100000 })), 5000050000);
+    });
+
+    it('应该生成可序列化的快照并从中恢复', () => {
+        const snapshots: string[] = [];
+        assert.strictEqual(run(checkpoint(fib({ n: 15, pc: 0 }), { onSnapshot: s => { snapshots.push(JSON.stringify(s)); } })), 610);
+        assert.ok(snapshots.length > 100);
+
+        // 从任意一个快照恢复都应该得到同样的结果
+        for (const text of [snapshots[1]!, snapshots[snapshots.length >> 1]!, snapshots[snapshots.length - 1]!]) {
+            assert.strictEqual(run(resume<number>(JSON.parse(text))), 610);
+        }
+
+        const middle = JSON.parse(snapshots[snapshots.length >> 1]!);
+        assert.strictEqual(middle.version, 1);
+        assert.strictEqual(middle.frames[0].name, 'test.fib');
+        assert.deepStrictEqual(middle.frames[0].state.n, 15);
+    });
+
+    it('运行中断后应该可以从最后一个快照继续', () => {
+        let saved = '';
+        let count = 0;
+        const crash = new Error('process killed');
+        assert.throws(() => run(checkpoint(sum({ n: 1000 }), {
+            onSnapshot: s => {
+                if (++count === 700) throw crash;
+                saved = JSON.stringify(s);
+            }
+        })), (error: unknown) => error === crash);
+
+        const snapshot = JSON.parse(saved);
+        // 第 699 个快照生成于第 699 层帧的第一步之前
+        assert.strictEqual(snapshot.frames.length, 699);
+        assert.deepStrictEqual(snapshot.frames[698].state, { n: 302 });
+        // 恢复后继续生成快照
+        let resumed = 0;
+        assert.strictEqual(run(resume<number>(snapshot, { onSnapshot: () => { resumed++; } })), 500500);
+        assert.ok(resumed > 0);
+    });
+
+    it('interval 应该控制快照的频率', () => {
+        let every = 0;
+        let sparse = 0;
+        run(checkpoint(sum({ n: 100 }), { onSnapshot: () => { every++; } }));
+        run(checkpoint(sum({ n: 100 }), { onSnapshot: () => { sparse++; }, interval: 10 }));
+        assert.strictEqual(sparse, Math.floor(every / 10));
+        assert.throws(() => checkpoint(sum({ n: 1 }), { onSnapshot: () => { }, interval: 0 }), RangeError);
+    });
+
+    it('异步爬虫应该可以在中断后恢复', async () => {
+        fetches = [];
+        assert.deepStrictEqual(await run(crawl({ url: '/', i: 0, found: [] }), { awaitPromises: true }), ['/', '/a', '/c', '/b']);
+
+        // 在抓取 /c 之后中断
+        fetches = [];
+        let saved = '';
+        const crash = new Error('process killed');
+        await assert.rejects(run(checkpoint(crawl({ url: '/', i: 0, found: [] }), {
+            onSnapshot: s => {
+                if (fetches.includes('/c')) throw crash;
+                saved = JSON.stringify(s);
+            }
+        }), { awaitPromises: true }), (error: unknown) => error === crash);
+
+        fetches = [];
+        const result = await run(resume<string[]>(JSON.parse(saved)), { awaitPromises: true });
+        assert.deepStrictEqual(result, ['/', '/a', '/c', '/b']);
+        // 已完成的抓取不会重复执行
+        assert.ok(!fetches.includes('/') && !fetches.includes('/a'));
+    });
+
+    it('应该拒绝重复的帧名、未知的帧和无法恢复的 yield', () => {
+        assert.throws(() => defineFrame('test.sum', () => ({ return: 0 })), TypeError);
+        assert.throws(() => resume({ version: 1, frames: [{ name: 'test.missing', state: {} }], input: undefined }), /unknown frame/);
+        assert.throws(() => resume({ version: 2 } as any), /invalid snapshot/);
+        assert.throws(() => checkpoint((function* () { })(), { onSnapshot: () => { } }), TypeError);
+
+        function* plain(): Generator<unknown, number> {
+            return 1;
+        }
+        const yieldsPlain = defineFrame('test.yieldsPlain', () => ({ state: {}, yield: plain() }));
+        const yieldsAll = defineFrame('test.yieldsAll', () => ({ state: {}, yield: all([sum({ n: 1 })]) }));
+        assert.throws(() => run(yieldsPlain({})), /not a resumable frame/);
+        assert.throws(() => run(yieldsAll({})), /cannot be resumed/);
+    });
+});
+
+// ==================== 运行日志与重放 ====================
+
+describe('journal / replay', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const Fetch = defineEffect<string, string[]>('journal.fetch');
+
+    const site: Record<string, string[]> = { '/': ['/a', '/b'], '/a': ['/c'], '/b': [], '/c': [] };
+    let requests = 0;
+    const handlers = {
+        'journal.fetch': async ({ payload }: { payload: string }) => {
+            requests++;
+            await delay(1);
+            if (!(payload in site)) throw new Error(`404 ${payload}`);
+            return site[payload];
+        }
+    };
+
+    function* crawl(url: string): Generator<unknown, string[]> {
+        const links = (yield Fetch(url)) as string[];
+        const found = [url];
+        for (const link of links) {
+            found.push(...((yield crawl(link)) as string[]));
+        }
+        return found;
+    }
+
+    it('应该记录送入帧的值，并在不执行 I/O 的情况下重放', async () => {
+        const journal: any[] = [];
+        requests = 0;
+        const result = await run(crawl('/'), { journal, handlers });
+        assert.deepStrictEqual(result, ['/', '/a', '/c', '/b']);
+        assert.strictEqual(requests, 4);
+        assert.ok(journal.some(entry => entry.type === 'call'));
+        assert.deepStrictEqual(journal[0], { type: 'next', value: ['/a', '/b'] });
+
+        requests = 0;
+        assert.deepStrictEqual(await replay(() => crawl('/'), journal), result);
+        assert.strictEqual(requests, 0);
+    });
+
+    it('日志经过 JSON 序列化后应该仍可重放', async () => {
+        const journal: any[] = [];
+        await run(crawl('/'), { journal, handlers });
+        const restored = JSON.parse(JSON.stringify(journal));
+        assert.deepStrictEqual(await replay(() => crawl('/'), restored), ['/', '/a', '/c', '/b']);
+    });
+
+    it('应该重现记录时的失败', async () => {
+        const seen: string[] = [];
+        function* visit(url: string): Generator<unknown, void> {
+            seen.push(url);
+            yield Fetch(url);
+        }
+        function* root(): Generator<unknown, void> {
+            yield visit('/');
+            try {
+                yield visit('/missing');
+            } catch (error) {
+                seen.push(`caught ${(error as Error).message}`);
+                throw error;
+            }
+        }
+
+        const journal: any[] = [];
+        await assert.rejects(run(root(), { journal, handlers }), /404 \/missing/);
+        const recorded = [...seen];
+
+        seen.length = 0;
+        requests = 0;
+        await assert.rejects(replay(root, journal), /404 \/missing/);
+        assert.deepStrictEqual(seen, recorded);
+        assert.strictEqual(requests, 0);
+    });
+
+    it('经过 JSON 序列化的日志应该还原被捕获的异常', async () => {
+        const Load = defineEffect<string, string>('journal.load');
+        const loadHandlers = {
+            'journal.load': async ({ payload }: { payload: string }) => {
+                requests++;
+                if (payload === 'net') throw Object.assign(new Error('net down'), { code: 'ECONNRESET' });
+                if (payload === 'type') throw new TypeError('bad type');
+                throw 'plain failure';
+            }
+        };
+        function* attempt(what: string): Generator<unknown, string> {
+            try {
+                return (yield Load(what)) as string;
+            } catch (e) {
+                if (e instanceof TypeError) return `type:${e.message}`;
+                if (e instanceof Error) return `caught:${e.name}:${e.message}:${(e as Error & { code?: string }).code}`;
+                return `value:${String(e)}`;
+            }
+        }
+        function* root(): Generator<unknown, string[]> {
+            return [
+                (yield attempt('net')) as string,
+                (yield attempt('type')) as string,
+                (yield attempt('plain')) as string
+            ];
+        }
+
+        const journal: any[] = [];
+        const recorded = await run(root(), { journal, handlers: loadHandlers });
+        assert.deepStrictEqual(recorded, ['caught:Error:net down:ECONNRESET', 'type:bad type', 'value:plain failure']);
+
+        requests = 0;
+        const restored = JSON.parse(JSON.stringify(journal));
+        assert.deepStrictEqual(await replay(root, restored), recorded);
+        assert.strictEqual(requests, 0);
+    });
+
+    it('应该按分支重放组合子', async () => {
+        const Wait = defineEffect<number, number>('journal.wait');
+        let waits = 0;
+        const waitHandlers = {
+            'journal.wait': async ({ payload }: { payload: number }) => {
+                waits++;
+                await delay(payload);
+                return payload * 10;
+            }
+        };
+        async function* leaf(ms: number): AsyncGenerator<unknown, number> {
+            const value = (yield Wait(ms)) as number;
+            return value + 1;
+        }
+        function* fanOut(): Generator<unknown, unknown> {
+            const results = yield all([leaf(5), leaf(1), leaf(3)]);
+            const winner = yield race([leaf(20), leaf(1)]);
+            return [results, winner];
+        }
+
+        const journal: any[] = [];
+        const result = await run(fanOut(), { journal, handlers: waitHandlers });
+        assert.deepStrictEqual(result, [[51, 11, 31], 11]);
+        assert.strictEqual(journal.filter(entry => entry.type === 'branches').length, 2);
+        assert.strictEqual(waits, 5);
+
+        waits = 0;
+        assert.deepStrictEqual(await replay(fanOut, journal, { handlers: waitHandlers }), result);
+        assert.strictEqual(waits, 0);
+    });
+
+    it('同步生成器设置 journal 时应该返回 Promise', async () => {
+        function* sum(n: number): Generator<unknown, number> {
+            return n === 0 ? 0 : n + ((yield sum(n - 1)) as number);
+        }
+        const journal: any[] = [];
+        const pending = run(sum(10), { journal });
+        assert.ok(pending instanceof Promise);
+        assert.strictEqual(await pending, 55);
+        assert.strictEqual(await replay(() => sum(10), journal), 55);
+    });
+
+    it('重放偏离日志时应该抛出 JournalMismatchError', async () => {
+        const journal: any[] = [];
+        await run(crawl('/'), { journal, handlers });
+
+        // 没有按记录时的方式递归，提前结束
+        function* shallow(): Generator<unknown, void> {
+            yield Fetch('/');
+        }
+        await assert.rejects(replay(shallow, journal), JournalMismatchError);
+        // 日志在运行结束之前就用完了
+        await assert.rejects(replay(() => crawl('/'), journal.slice(0, 3)), JournalMismatchError);
+    });
+});
+
+describe('createRunner', () => {
+    const fib = traced(function* (n: number): Generator<unknown, number> {
+        if (n <= 2) return 1;
+        return (yield fib(n - 1)) + (yield fib(n - 2));
+    }, 'fib');
+
+    it('step 应该每次驱动一步并暴露帧栈、深度和最近 yield 的值', () => {
+        const runner = createRunner(fib(3));
+        assert.strictEqual(runner.depth, 1);
+        assert.deepStrictEqual(runner.frames, [{ name: 'fib', args: [3] }]);
+        assert.strictEqual(runner.steps, 0);
+
+        assert.strictEqual(runner.step(), 'step');
+        assert.strictEqual(runner.depth, 2);
+        assert.deepStrictEqual(runner.frames, [{ name: 'fib', args: [2] }, { name: 'fib', args: [3] }]);
+        assert.ok(isGenerator(runner.lastYielded));
+
+        assert.strictEqual(runner.step(), 'step');
+        assert.strictEqual(runner.depth, 1);
+        assert.strictEqual(runner.step(), 'step');
+        assert.strictEqual(runner.step(), 'step');
+        assert.strictEqual(runner.step(), 'done');
+        assert.strictEqual(runner.done, true);
+        assert.strictEqual(runner.result, 2);
+        assert.strictEqual(runner.steps, 5);
+        assert.strictEqual(runner.depth, 0);
+        assert.deepStrictEqual(runner.frames, []);
+        assert.strictEqual(runner.step(), 'done');
+    });
+
+    it('stepOver 应该整体执行子帧，stepOut 应该回到父帧', () => {
+        const runner = createRunner(fib(6));
+        runner.step();
+        assert.deepStrictEqual(runner.frames.map(frame => frame.args), [[5], [6]]);
+
+        // fib(4) yield fib(3) 之后，fib(3) 整体执行完毕，停在 fib(4) 接收其结果之前
+        runner.step();
+        const steps = runner.steps;
+        assert.strictEqual(runner.stepOver(), 'step');
+        assert.strictEqual(runner.depth, 3);
+        assert.deepStrictEqual(runner.frames.map(frame => frame.args), [[4], [5], [6]]);
+        assert.strictEqual(runner.steps - steps, 6);
+
+        assert.strictEqual(runner.stepOut(), 'step');
+        assert.deepStrictEqual(runner.frames.map(frame => frame.args), [[5], [6]]);
+        assert.strictEqual(runner.stepOut(), 'step');
+        assert.deepStrictEqual(runner.frames.map(frame => frame.args), [[6]]);
+        assert.strictEqual(runner.stepOut(), 'done');
+        assert.strictEqual(runner.result, 8);
+    });
+
+    it('continue 应该在断点处暂停', () => {
+        const runner = createRunner(fib(10));
+        const remove = runner.addBreakpoint(r => r.depth === 5);
+
+        assert.strictEqual(runner.continue(), 'breakpoint');
+        assert.deepStrictEqual(runner.frames.map(frame => frame.args![0]), [6, 7, 8, 9, 10]);
+
+        remove();
+        assert.strictEqual(runner.stepOut(), 'step');
+        assert.deepStrictEqual(runner.frames.map(frame => frame.args![0]), [7, 8, 9, 10]);
+        assert.strictEqual(runner.continue(), 'done');
+        assert.strictEqual(runner.result, 55);
+    });
+
+    it('按名称的断点应该在压入同名帧时暂停', () => {
+        const leaf = traced(function* leaf(n: number): Generator<unknown, number> {
+            return n;
+        });
+        const sum = traced(function* sum(n: number): Generator<unknown, number> {
+            if (n === 0) return yield leaf(0);
+            return n + (yield sum(n - 1));
+        });
+
+        const runner = createRunner(sum(3));
+        runner.addBreakpoint('leaf');
+        assert.strictEqual(runner.continue(), 'breakpoint');
+        assert.deepStrictEqual(runner.frames.map(frame => frame.name), ['leaf', 'sum', 'sum', 'sum', 'sum']);
+        assert.strictEqual(runner.continue(), 'done');
+        assert.strictEqual(runner.result, 6);
+    });
+
+    it('未捕获的异常应该从当前操作中抛出并结束运行', () => {
+        function* fail(n: number): Generator<unknown, number> {
+            if (n === 0) throw new Error('boom');
+            return yield fail(n - 1);
+        }
+
+        const runner = createRunner(fail(3));
+        assert.throws(() => runner.continue(), /boom/);
+        assert.strictEqual(runner.done, true);
+        assert.strictEqual(runner.step(), 'done');
+
+        const limited = createRunner(fib(10), { maxSteps: 3 });
+        limited.step();
+        limited.step();
+        limited.step();
+        assert.throws(() => limited.step(), StepLimitError);
+        assert.strictEqual(limited.done, true);
+    });
+
+    it('close 应该执行存活帧的 finally 块', () => {
+        const log: number[] = [];
+        function* nest(n: number): Generator<unknown, void> {
+            try {
+                if (n > 0) yield nest(n - 1);
+            } finally {
+                log.push(n);
+            }
+        }
+
+        const runner = createRunner(nest(2));
+        runner.step();
+        runner.step();
+        // nest(0) 已压栈但尚未开始执行，没有进入 try 块
+        runner.close();
+        assert.deepStrictEqual(log, [1, 2]);
+        assert.strictEqual(runner.done, true);
+    });
+});
+
+describe('hooks', () => {
+    const sum = traced(function* (n: number): Generator<unknown, number> {
+        if (n === 0) return 0;
+        return n + (yield sum(n - 1));
+    }, 'sum');
+
+    /** 把钩子调用记录为字符串 */
+    function recorder() {
+        const events: string[] = [];
+        const hooks = {
+            onPush: (frame: object, depth: number) => { events.push(`push ${frameName(frame)} ${depth}`); },
+            onPop: (frame: object, depth: number) => { events.push(`pop ${frameName(frame)} ${depth}`); },
+            onYield: (frame: object, value: unknown, depth: number) => {
+                events.push(`yield ${frameName(frame)} ${isGenerator(value) ? frameName(value) : String(value)} ${depth}`);
+            },
+            onError: (frame: object, error: unknown, depth: number) => {
+                events.push(`error ${frameName(frame)} ${(error as Error).message} ${depth}`);
+            },
+            onComplete: (result: unknown) => { events.push(`complete ${String(result)}`); }
+        };
+        return { events, hooks };
+    }
+
+    it('run 应该按顺序调用 onPush、onYield、onPop 和 onComplete', () => {
+        const { events, hooks } = recorder();
+        assert.strictEqual(run(sum(2), { hooks }), 3);
+        assert.deepStrictEqual(events, [
+            'push sum 1',
+            'yield sum sum 1',
+            'push sum 2',
+            'yield sum sum 2',
+            'push sum 3',
+            'pop sum 3',
+            'pop sum 2',
+            'pop sum 1',
+            'complete 3'
+        ]);
+    });
+
+    it('帧抛出异常时应该先调用 onError 再调用 onPop', () => {
+        const fail = traced(function* fail(): Generator<unknown, number> {
+            throw new Error('boom');
+        });
+        const caller = traced(function* caller(): Generator<unknown, number> {
+            try {
+                return yield fail();
+            } catch {
+                return -1;
+            }
+        });
+
+        const { events, hooks } = recorder();
+        assert.strictEqual(run(caller(), { hooks }), -1);
+        assert.deepStrictEqual(events, [
+            'push caller 1',
+            'yield caller fail 1',
+            'push fail 2',
+            'error fail boom 2',
+            'pop fail 2',
+            'pop caller 1',
+            'complete -1'
+        ]);
+
+        const root = recorder();
+        assert.throws(() => run(fail(), { hooks: root.hooks }), /boom/);
+        assert.deepStrictEqual(root.events, ['push fail 1', 'error fail boom 1', 'pop fail 1']);
+    });
+
+    it('运行中止时应该为被关闭的帧调用 onPop', () => {
+        const { events, hooks } = recorder();
+        assert.throws(() => run(sum(10), { hooks, maxSteps: 3 }), StepLimitError);
+        assert.deepStrictEqual(events.filter(event => event.startsWith('pop')), ['pop sum 4', 'pop sum 3', 'pop sum 2', 'pop sum 1']);
+        assert.ok(!events.some(event => event.startsWith('complete')));
+    });
+
+    it('钩子抛出异常时应该关闭存活的帧', async () => {
+        const log: string[] = [];
+        function* nest(n: number): Generator<unknown, void> {
+            try {
+                if (n > 0) yield nest(n - 1);
+            } finally {
+                log.push(`sync ${n}`);
+            }
+        }
+        async function* nestAsync(n: number): AsyncGenerator<unknown, void> {
+            try {
+                if (n > 0) yield nestAsync(n - 1);
+            } finally {
+                log.push(`async ${n}`);
+            }
+        }
+        const pops: number[] = [];
+        const hooks = {
+            onYield: (_frame: object, _value: unknown, depth: number) => {
+                if (depth === 3) throw new Error('hook failed');
+            },
+            onPop: (_frame: object, depth: number) => { pops.push(depth); }
+        };
+
+        assert.throws(() => run(nest(3), { hooks }), /hook failed/);
+        assert.deepStrictEqual(log, ['sync 1', 'sync 2', 'sync 3']);
+        assert.deepStrictEqual(pops, [3, 2, 1]);
+
+        log.length = 0;
+        pops.length = 0;
+        await assert.rejects(run(nestAsync(3), { hooks }), /hook failed/);
+        assert.deepStrictEqual(log, ['async 1', 'async 2', 'async 3']);
+        assert.deepStrictEqual(pops, [3, 2, 1]);
+
+        // 分支中钩子抛出的异常中止整个运行，不会交给父帧处理
+        async function* guarded(): AsyncGenerator<unknown, string> {
+            try {
+                yield all([nestAsync(3)]);
+                return 'done';
+            } catch {
+                return 'caught';
+            }
+        }
+        log.length = 0;
+        await assert.rejects(run(guarded(), { hooks }), /hook failed/);
+        assert.deepStrictEqual(log, ['async 2', 'async 3']);
+
+        const throwing = { onYield: () => { throw new Error('hook failed'); } };
+        log.length = 0;
+        assert.throws(() => runTail(nest(3), { hooks: throwing }), /hook failed/);
+        await assert.rejects(runTail(nestAsync(3), { hooks: throwing }), /hook failed/);
+        assert.deepStrictEqual(log, ['sync 3', 'async 3']);
+    });
+
+    it('异步运行中组合子的各分支应该在正确的深度压栈和弹出', async () => {
+        const leaf = traced(async function* leaf(n: number): AsyncGenerator<unknown, number> {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            return n;
+        });
+        const parent = traced(async function* parent(): AsyncGenerator<unknown, number[]> {
+            return yield all([leaf(1), leaf(2)]);
+        });
+
+        const depths = new Map<string, number[]>();
+        let pushes = 0;
+        let pops = 0;
+        let completed: unknown;
+        const result = await run(parent(), {
+            hooks: {
+                onPush: (frame, depth) => {
+                    pushes++;
+                    const list = depths.get(frameName(frame)) ?? [];
+                    list.push(depth);
+                    depths.set(frameName(frame), list);
+                },
+                onPop: () => { pops++; },
+                onComplete: value => { completed = value; }
+            }
+        });
+
+        assert.deepStrictEqual(result, [1, 2]);
+        assert.deepStrictEqual(completed, [1, 2]);
+        assert.deepStrictEqual(depths.get('parent'), [1]);
+        assert.deepStrictEqual(depths.get('leaf'), [2, 2]);
+        assert.strictEqual(pushes, 3);
+        assert.strictEqual(pops, 3);
+    });
+
+    it('race 中被取消的分支也应该调用 onPop', async () => {
+        const wait = traced(async function* wait(ms: number): AsyncGenerator<unknown, number> {
+            await new Promise(resolve => setTimeout(resolve, ms));
+            return ms;
+        });
+        const live = new Set<object>();
+        const hooks = {
+            onPush: (frame: object) => { live.add(frame); },
+            onPop: (frame: object) => { live.delete(frame); }
+        };
+
+        async function* first(): AsyncGenerator<unknown, number> {
+            return yield race([wait(1), wait(50)]);
+        }
+
+        assert.strictEqual(await run(first(), { hooks }), 1);
+        assert.strictEqual(live.size, 0);
+    });
+
+    it('runTail 的尾调用应该视为弹出当前帧并压入新帧', () => {
+        const countdown = traced(function* (n: number): Generator<unknown, number> {
+            if (n === 0) return 0;
+            return yield countdown(n - 1);
+        }, 'countdown');
+
+        const { events, hooks } = recorder();
+        assert.strictEqual(runTail(countdown(1), { hooks }), 0);
+        assert.deepStrictEqual(events, [
+            'push countdown 1',
+            'yield countdown countdown 1',
+            'pop countdown 1',
+            'push countdown 1',
+            'pop countdown 1',
+            'complete 0'
+        ]);
+    });
+
+    it('异步 runTail 也应该调用钩子', async () => {
+        const countdown = traced(async function* (n: number): AsyncGenerator<unknown, number> {
+            if (n === 0) return 0;
+            return yield countdown(n - 1);
+        }, 'countdown');
+
+        let pushes = 0;
+        let pops = 0;
+        const result = await runTail(countdown(5), {
+            hooks: { onPush: () => { pushes++; }, onPop: () => { pops++; } }
+        });
+        assert.strictEqual(result, 0);
+        assert.strictEqual(pushes, 6);
+        assert.strictEqual(pops, 6);
+    });
+
+    it('未包装的帧名称应该是 <generator> 或 <async generator>', () => {
+        function* plain(): Generator<unknown, void> { }
+        async function* plainAsync(): AsyncGenerator<unknown, void> { }
+
+        assert.strictEqual(frameName(plain()), '<generator>');
+        assert.strictEqual(frameName(plainAsync()), '<async generator>');
+    });
+});
+
+describe('recurun/profile', () => {
+    /** 占用 CPU 指定的毫秒数 */
+    function spin(ms: number): void {
+        const end = performance.now() + ms;
+        while (performance.now() < end) { }
+    }
+
+    const leaf = traced(function* leaf(): Generator<unknown, number> {
+        spin(2);
+        return 1;
+    });
+    const branch = traced(function* branch(n: number): Generator<unknown, number> {
+        let total = 0;
+        for (let i = 0; i < n; i++) total += yield leaf();
+        return total;
+    });
+    const main = traced(function* main(): Generator<unknown, number> {
+        return (yield branch(2)) + (yield leaf());
+    });
+
+    it('应该按调用路径汇总帧的调用次数和耗时', () => {
+        const { result, profile: p } = profile(main());
+        assert.strictEqual(result, 3);
+
+        const [mainNode] = p.root.children;
+        assert.strictEqual(p.root.name, '(root)');
+        assert.strictEqual(p.root.children.length, 1);
+        assert.strictEqual(mainNode!.name, 'main');
+        assert.deepStrictEqual(mainNode!.children.map(node => [node.name, node.calls]), [['branch', 1], ['leaf', 1]]);
+        const branchNode = mainNode!.children[0]!;
+        assert.deepStrictEqual(branchNode.children.map(node => [node.name, node.calls]), [['leaf', 2]]);
+
+        // leaf 的自身耗时占绝大部分，父帧的总耗时包含子调用
+        assert.ok(branchNode.children[0]!.totalTime >= 4);
+        assert.ok(branchNode.totalTime >= branchNode.children[0]!.totalTime);
+        assert.ok(mainNode!.totalTime >= 6);
+        assert.ok(p.endTime - p.startTime >= mainNode!.totalTime);
+        assert.strictEqual(p.functions[0]!.name, 'leaf');
+        assert.strictEqual(p.functions[0]!.calls, 3);
+    });
+
+    it('递归函数的总耗时不应该被重复计算', () => {
+        const fib = traced(function* (n: number): Generator<unknown, number> {
+            if (n <= 2) return 1;
+            return (yield fib(n - 1)) + (yield fib(n - 2));
+        }, 'fib');
+
+        const { result, profile: p } = profile(fib(10));
+        assert.strictEqual(result, 55);
+        const [stats] = p.functions;
+        assert.strictEqual(stats!.name, 'fib');
+        assert.strictEqual(stats!.calls, 109);
+        assert.strictEqual(stats!.totalTime, p.root.children[0]!.totalTime);
+
+        // 每一层递归是调用树中的一层
+        let depth = 0;
+        for (let node = p.root; node.children.length > 0; node = node.children[0]!) depth++;
+        assert.strictEqual(depth, 9);
+    });
+
+    it('toCollapsedStacks 应该输出调用路径和以微秒为单位的自身耗时', () => {
+        const { profile: p } = profile(main());
+        const lines = toCollapsedStacks(p).trimEnd().split('\n');
+        const paths = lines.map(line => line.slice(0, line.lastIndexOf(' ')));
+
+        assert.ok(paths.includes('main;branch;leaf'));
+        assert.ok(paths.includes('main;leaf'));
+        for (const line of lines) {
+            assert.match(line, /^[\w;]+ \d+$/);
+        }
+        const leafTime = Number(lines.find(line => line.startsWith('main;branch;leaf '))!.split(' ')[1]);
+        assert.ok(leafTime >= 4000);
+    });
+
+    it('toCollapsedStacks 应该合并直接递归的帧，深层递归也能导出', () => {
+        const down = traced(function* (n: number): Generator<unknown, number> {
+            if (n === 0) {
+                spin(1);
+                return 0;
+            }
+            return (yield down(n - 1)) as number;
+        }, 'down');
+
+        const deep = toCollapsedStacks(profile(down(20000)).profile);
+        assert.deepStrictEqual(deep.trimEnd().split('\n').map(line => line.split(' ')[0]), ['down']);
+
+        const unmerged = toCollapsedStacks(profile(down(2)).profile, { mergeRecursion: false });
+        assert.ok(unmerged.split('\n').some(line => line.startsWith('down;down;down ')));
+    });
+
+    it('toCpuProfile 应该输出结构一致的 .cpuprofile', () => {
+        const { profile: p } = profile(main());
+        const cpuProfile = toCpuProfile(p);
+        const ids = new Set(cpuProfile.nodes.map(node => node.id));
+
+        assert.strictEqual(cpuProfile.nodes[0]!.callFrame.functionName, '(root)');
+        assert.strictEqual(cpuProfile.nodes.length, 5);
+        assert.strictEqual(ids.size, cpuProfile.nodes.length);
+        for (const node of cpuProfile.nodes) {
+            for (const child of node.children ?? []) assert.ok(ids.has(child));
+        }
+        assert.strictEqual(cpuProfile.samples.length, cpuProfile.timeDeltas.length);
+        for (const sample of cpuProfile.samples) assert.ok(ids.has(sample));
+        assert.strictEqual(
+            cpuProfile.endTime - cpuProfile.startTime,
+            cpuProfile.timeDeltas.reduce((a, b) => a + b, 0)
+        );
+        assert.doesNotThrow(() => JSON.parse(JSON.stringify(cpuProfile)));
+    });
+
+    it('异步运行中并发的分支应该归入调用方的路径', async () => {
+        const fetchItem = traced(async function* fetchItem(ms: number): AsyncGenerator<unknown, number> {
+            await new Promise(resolve => setTimeout(resolve, ms));
+            return ms;
+        });
+        const crawl = traced(async function* crawl(): AsyncGenerator<unknown, number[]> {
+            return yield all([fetchItem(5), fetchItem(10), fetchItem(5)]);
+        });
+
+        let pushes = 0;
+        const { result, profile: p } = await profile(crawl(), { hooks: { onPush: () => { pushes++; } } });
+        assert.deepStrictEqual(result, [5, 10, 5]);
+        assert.strictEqual(pushes, 4);
+
+        const crawlNode = p.root.children[0]!;
+        assert.strictEqual(crawlNode.name, 'crawl');
+        assert.deepStrictEqual(crawlNode.children.map(node => [node.name, node.calls]), [['fetchItem', 3]]);
+        // 墙钟时间：并发的分支总耗时之和超过父帧，父帧的自身耗时记为 0
+        // （计时器可能比 performance.now() 的测量略早触发，留出余量）
+        assert.ok(crawlNode.totalTime >= 8);
+        assert.ok(crawlNode.children[0]!.totalTime > crawlNode.totalTime);
+        assert.strictEqual(crawlNode.selfTime, 0);
+    });
+
+    it('awaitPromises 模式下同步生成器也应该返回 Promise', async () => {
+        function* wait(): Generator<unknown, string> {
+            return yield Promise.resolve('ok');
+        }
+
+        const pending = profile(wait(), { awaitPromises: true });
+        assert.ok(pending instanceof Promise);
+        const { result, profile: p } = await pending;
+        assert.strictEqual(result, 'ok');
+        assert.strictEqual(p.root.children[0]!.name, '<generator>');
+    });
+});
+
 // ==================== 性能测试 ====================
 
 describe('性能测试', () => {